@@ -1,6 +1,7 @@
 import type { Plugin } from "@opencode-ai/plugin"
 import { tool } from "@opencode-ai/plugin"
-import { execSync } from "child_process"
+import { exec, execFileSync, execSync } from "child_process"
+import crypto from "crypto"
 import fs from "fs"
 import path from "path"
 
@@ -8,32 +9,502 @@ import path from "path"
 // Types
 // ---------------------------------------------------------------------------
 
-type Phase =
-  | "brainstorming"
-  | "refining"
-  | "dispatching"
-  | "reviewing"
-  | "reporting"
-  | "complete"
+/**
+ * Phase name. The defaults below form the standard BRIR graph; teams can add
+ * phases of their own through .opencode/brir.json.
+ */
+type Phase = string
+
+/** Declarative pipeline definition: defaults merged with .opencode/brir.json */
+interface PipelineConfig {
+  orchestratorAgent: string
+  maxIterations: number
+  transitions: Record<Phase, Phase[]>
+  aliases: Record<string, Phase>
+  guidance: Record<Phase, string>
+  validation: ValidationCheck[]
+  ignore: string[] // extra .gitignore-style patterns for non-git snapshots
+  dispatch: DispatchPolicy
+  subagents: Record<string, Partial<SubagentPolicy>> // agent name ("*" = every agent) -> policy
+  budget: RunBudget
+  approval: ApprovalPolicy
+  hygiene: HygienePolicy
+  report: ReportPolicy
+  notify: NotifyPolicy
+}
+
+/** The Markdown artifact written when a run completes */
+interface ReportPolicy {
+  enabled: boolean
+  prDescription: boolean // also write a pull request description next to it
+}
+
+type PipelineEventType = (typeof PIPELINE_EVENT_TYPES)[number]
+
+/** Where pipeline events are delivered; `events` null = every type */
+type EventSink =
+  | { type: "command"; command: string; events: PipelineEventType[] | null; timeoutMs: number }
+  | { type: "webhook"; url: string; headers: Record<string, string>; events: PipelineEventType[] | null; timeoutMs: number }
+  | { type: "jsonl"; file: string; events: PipelineEventType[] | null }
+
+interface NotifyPolicy {
+  sinks: EventSink[]
+  toasts: boolean // toast when the orchestrator stops and waits for the user
+}
+
+/** The structured event every sink receives */
+interface PipelineEvent {
+  type: PipelineEventType
+  at: string // ISO timestamp
+  sessionID: string
+  runID: string
+  run: string // "run #2", with the run's name if it has one
+  phase: Phase
+  from?: Phase
+  iteration: number
+  dispatch?: number
+  message: string
+  reason?: string
+  reportFile?: string
+}
+
+/** Transitions the user must approve in a message of their own */
+interface ApprovalPolicy {
+  gates: string[] // "from->to" phase pairs
+  keyword: string | null // the approving message must contain this word
+}
+
+/** Per-run spending limits; exceeding one warns, or also stops iterating */
+interface RunBudget {
+  maxCost: number | null // USD, as reported by the provider
+  maxTokens: number | null // input + output + cache reads and writes
+  onExceed: "warn" | "block"
+}
+
+/** Tokens and cost of assistant messages (reasoning counts as output) */
+interface Usage {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+  cost: number
+}
+
+/**
+ * What a subagent may call. Rules are globs (`*` matches anything, spaces
+ * and slashes included) or `/regex/flags`. Deny rules always win.
+ */
+interface SubagentPolicy {
+  allowTools: string[] // empty = any tool not denied
+  denyTools: string[]
+  allowBash: string[] // empty = any command not denied
+  denyBash: string[]
+}
+
+/** A subagent call refused by its policy, for the review summary */
+interface PolicyViolation {
+  agent: string
+  sessionID: string
+  tool: string
+  detail: string // the command, or the tool name
+  rule: string
+  iteration: number
+  dispatch: number
+  callID: string | null // the orchestrator's Task call the session ran under
+  retried: boolean // the attempt failed and was retried, so its result was dropped
+  at: number
+}
+
+/** How Task results are judged, and how transient failures are retried */
+interface DispatchPolicy {
+  timeoutMs: number // a Task running longer than this counts as failed
+  maxRetries: number // automatic retries of a transient failure
+  backoffMs: number // delay before the first retry, doubled for each next one
+  failOnNoChanges: boolean // a Task that changed no files counts as failed
+}
+
+type DispatchFailureKind =
+  | "tool_error" // the Task tool itself errored
+  | "session_error" // the implementer session reported an error
+  | "empty_result" // the implementer returned no text
+  | "no_changes" // no file changed since dispatch
+  | "timeout"
+
+interface DispatchFailure {
+  kind: DispatchFailureKind
+  message: string
+  at: number
+  iteration: number
+}
+
+/** What an implementer's Task result claims, from its brir-report block */
+interface SelfReport {
+  sessionID: string | null
+  subtask: string | null
+  structured: boolean // the brir-report block was present
+  files: Array<{ path: string; status: "created" | "modified" | "deleted" | null }> // project-relative
+  validation: Array<{ command: string; result: "pass" | "fail" | "skipped" | null }>
+  claimsPassing: boolean // the prose says tests/checks passed
+}
+
+/** A bash command an implementer session ran during the current dispatch */
+interface ChildCommand {
+  sessionID: string
+  command: string
+  exitCode: number | null // null = unknown
+}
+
+/** A command the plugin runs itself when the implementer's work comes back */
+interface ValidationCheck {
+  name: string
+  command: string
+  required: boolean // a failing required check blocks leaving review
+  timeoutMs: number
+}
+
+interface ValidationResult {
+  name: string
+  command: string
+  required: boolean
+  exitCode: number | null // null = timed out or could not start
+  output: string // tail of stdout+stderr, truncated
+  durationMs: number
+}
+
+type HygieneRule = (typeof HYGIENE_RULES)[number]
+type HygieneLevel = "block" | "warn" | "off"
+
+/** Checks the plugin runs on the change set itself before review can end */
+interface HygienePolicy {
+  rules: Record<HygieneRule, HygieneLevel>
+  maxFileSize: number // bytes; larger added files trip large-files
+  lockfiles: string[] // globs
+  generated: string[] // globs
+  debugPatterns: string[] // regexes matched against added lines
+  secretPatterns: string[] // regexes, on top of the built-in ones
+  ignore: string[] // globs exempt from every rule
+}
+
+/** One rule tripped by one file; line rules list the offending new lines */
+interface HygieneIssue {
+  rule: HygieneRule
+  blocking: boolean
+  path: string
+  lines: number[]
+  message: string
+}
+
+/** Size/mtime let unchanged files skip re-hashing on the next snapshot */
+interface FileEntry {
+  size: number
+  mtimeMs: number
+  hash: string
+}
+
+/** The refined spec handed to the implementer (pipeline_submit_spec) */
+interface Spec {
+  goal: string
+  files: Array<{ path: string; change: string }> // absolute paths
+  patterns: string[]
+  edgeCases: string[]
+  tests: string[]
+  nonGoals: string[]
+  validation: string[] // commands the implementer runs
+  subtasks: Array<{ name: string; goal: string; files: string[] }> // absolute paths
+}
+
+/** One part of a fan-out dispatch, run by its own implementer Task */
+interface Subtask {
+  name: string
+  goal: string
+  files: string[] // project-relative, disjoint from every other subtask
+  status: "pending" | "running" | "completed" | "failed"
+  callID: string | null // Task call running it
+  sessionID: string | null // its implementer session, once known
+  startedAt: number | null
+  failure: string | null
+}
+
+type FindingSeverity = "blocking" | "minor" | "nit"
+type FindingCategory = "bug" | "edge-case" | "convention" | "security"
+type FindingStatus = "open" | "fixed" | "wontfix"
+
+/** One issue recorded with pipeline_review; kept across review cycles */
+interface Finding {
+  id: string // F1, F2, ... within a run
+  severity: FindingSeverity
+  category: FindingCategory
+  file: string | null
+  line: number | null
+  description: string
+  status: FindingStatus
+  openedIteration: number
+  resolvedIteration: number | null
+}
+
+/** A subagent session spawned by a run's Task (or by one of its children) */
+interface ChildSession {
+  sessionID: string
+  agent: string | null // from the session title; null if it was never seen
+  dispatch: number // the run's dispatch it belongs to (state.dispatches)
+  iteration: number
+  callID: string | null // the orchestrator's Task call, once known
+  linkedAt: number
+}
+
+/** Worktree state taken automatically before a dispatch */
+interface Checkpoint {
+  iteration: number
+  snapshotFile: string // relative to BRIR_DIR
+  gitRef: string | null // stash-style commit holding tracked content (git only)
+  at: number
+}
+
+/** A pipeline_rollback, for the report */
+interface Rollback {
+  toIteration: number // worktree restored to the start of this iteration
+  undone: number[] // iterations whose changes were discarded
+  reason: string | null
+  at: number
+}
+
+/** Project-relative path (forward slashes) -> content fingerprint */
+type Snapshot = Record<string, FileEntry>
+
+interface ChangedFile {
+  path: string // project-relative, forward slashes
+  status: "added" | "modified" | "deleted"
+  tracked: boolean // git diff shows tracked files only
+}
 
 interface PipelineState {
+  runID: string
+  runNumber: number // 1 for a session's first run, 2 for the follow-up...
+  name: string | null
   phase: Phase
+  phaseEnteredAt: number
   iterations: number
-  gitDiffCalled: boolean
+  gitDiffCalled: boolean // a full (non-summary) git diff ran this cycle
+  snapshotFile: string | null // worktree snapshot taken entering dispatching
+  changedFiles: ChangedFile[] | null // null = unknown (no snapshot)
+  reviewedFiles: string[] // changed files the orchestrator read or diffed
+  diffViewed: boolean // pipeline_diff was called this cycle
+  specFile: string | null // submitted spec, relative to BRIR_DIR
+  scope: string[] | null // globs the implementer may change; null = anywhere
   isGitRepo: boolean | null // null = not yet detected (lazy)
   startTime: number
   dispatches: number
+  dispatchStartedAt: number | null // set while a Task is running
+  validation: ValidationResult[] // results for the current review cycle
+  caveats: string[] // must be carried into the report
+  findings: Finding[] // review findings for the whole run
+  failedDispatches: number // Task calls that failed (dispatches counts cycles)
+  lastFailure: DispatchFailure | null
+  dispatchError: string | null // implementer session error seen while the Task runs
+  dispatchCallID: string | null // the running Task call, outside a fan-out
+  timedOutCalls: string[] // running Task calls the dispatch timer aborted
+  checkpoints: Checkpoint[]
+  rollbacks: Rollback[]
+  subtasks: Subtask[] // from the spec; fanned out on the first dispatch
+  childErrors: Record<string, string> // implementer session -> error, this dispatch
+  childWrites: Record<string, string[]> // implementer session -> files it wrote
+  children: ChildSession[] // every subagent session of the run
+  policyViolations: PolicyViolation[]
+  phaseUsage: Record<Phase, Usage> // orchestrator messages, by phase
+  dispatchUsage: Record<string, Usage> // subagent messages, by dispatch number
+  agentUsage: Record<string, Usage>
+  messageUsage: Record<string, Usage> // totals already counted per message
+  budgetExceededAt: number | null
+  specShownAt: number | null // last pipeline_submit_spec
+  lastUserMessageAt: number | null
+  lastApprovalAt: number | null // last user message that counts as approval
+  hygiene: HygieneIssue[] | null // this cycle's change set; null = not checked
+  request: string | null // the user message the run started from
+  selfReports: SelfReport[] // this dispatch's Task results
+  childCommands: ChildCommand[] // this dispatch's implementer bash calls
+  discrepancies: string[] // self-report vs reality, this cycle
+  reportFile: string | null // written on completion, relative to BRIR_DIR
+}
+
+/** An earlier run of a session, kept when the next one starts */
+interface RunRecord {
+  runID: string
+  runNumber: number
+  name: string | null
+  outcome: "complete" | "aborted" | "abandoned"
+  reason: string | null
+  phase: Phase // where it ended
+  iterations: number
+  dispatches: number
+  startTime: number
+  endTime: number
+  cost: number
+  reportFile: string | null
+}
+
+/** Everything in PipelineState survives restarts except isGitRepo (re-detected) */
+type PersistedState = Omit<PipelineState, "isGitRepo">
+
+type HistoryEventType =
+  | "run_start"
+  | "transition"
+  | "dispatch_start"
+  | "dispatch_end"
+  | "tool_blocked"
+  | "scope_violation"
+  | "policy_violation"
+  | "child_session"
+  | "child_error"
+  | "budget_exceeded"
+  | "review"
+  | "rollback"
+  | "run_end"
+
+/** One line of .opencode/brir/history.jsonl */
+interface HistoryEvent {
+  ts: number
+  type: HistoryEventType
+  runID: string | null // null when a blocked subagent cannot be tied to a run
+  sessionID: string
+  from?: Phase
+  to?: Phase
+  iteration?: number
+  reason?: string
+  durationMs?: number
+  outcome?: string
+  tool?: string
+  dispatches?: number
+  dispatch?: number // which dispatch of the run a subagent event belongs to
+  agent?: string
+  phaseUsage?: Record<Phase, Usage> // run_end: orchestrator spend by phase
+  dispatchUsage?: Usage // run_end: all subagent spend
+}
+
+/** On-disk layout of .opencode/brir/state.json */
+interface StateStore {
+  version: 1
+  sessions: Record<string, PersistedState> // each session's current run
+  runs: Record<string, RunRecord[]> // each session's earlier runs, oldest first
 }
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const ORCHESTRATOR_AGENT = "orchestrator"
-const MAX_ITERATIONS = 3
+const DEFAULT_ORCHESTRATOR_AGENT = "orchestrator"
+const DEFAULT_MAX_ITERATIONS = 3
+
+/** Project-level pipeline config file (relative to the project) */
+const CONFIG_FILE = path.join(".opencode", "brir.json")
+const CONFIG_KEYS = [
+  "orchestratorAgent",
+  "maxIterations",
+  "transitions",
+  "aliases",
+  "guidance",
+  "validation",
+  "ignore",
+  "dispatch",
+  "subagents",
+  "budget",
+  "approval",
+  "hygiene",
+  "report",
+  "notify",
+]
+
+const DEFAULT_VALIDATION_TIMEOUT_MS = 5 * 60 * 1000
+
+/** Characters of validation output kept per check (the tail, where errors are) */
+const VALIDATION_OUTPUT_LIMIT = 2000
+
+const DEFAULT_DISPATCH_POLICY: DispatchPolicy = {
+  timeoutMs: 30 * 60 * 1000,
+  maxRetries: 1,
+  backoffMs: 5000,
+  failOnNoChanges: true,
+}
+
+/** Failures worth retrying with the same prompt */
+const TRANSIENT_FAILURES: DispatchFailureKind[] = ["tool_error", "session_error", "empty_result"]
+
+/**
+ * Phases the plugin attaches behavior to (initial phase, Task gating and
+ * auto-advance, review prerequisites, reset). A config may add phases and
+ * rewire transitions, but cannot drop these.
+ */
+const CORE_PHASES: Phase[] = ["brainstorming", "dispatching", "reviewing", "complete"]
+const INITIAL_PHASE: Phase = "brainstorming"
+
+/** Plugin-owned directory (relative to the project) for durable state */
+const BRIR_DIR = path.join(".opencode", "brir")
+const STATE_FILE = "state.json"
+/** Sessions and run lists in state.json untouched this long are dropped */
+const STORE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+/** Earlier runs kept per session in state.json */
+const MAX_RUN_RECORDS = 20
+/**
+ * Per-message usage totals kept to de-duplicate repeated updates of the
+ * same message. Only messages still streaming are updated, so the oldest
+ * can go; a completed run keeps just the last few.
+ */
+const MAX_TRACKED_MESSAGES = 50
+const TRACKED_MESSAGES_AFTER_RUN = 5
+const HISTORY_FILE = "history.jsonl"
+const SNAPSHOT_DIR = "snapshots"
+const SPECS_DIR = "specs"
+const REPORTS_DIR = "reports"
+/** Content-addressed copies of files, so non-git snapshots can be diffed */
+const OBJECTS_DIR = "objects"
+
+/** Always skipped by non-git snapshots, before .gitignore and config patterns */
+const DEFAULT_IGNORE = [".git/", "node_modules/", ".opencode/brir/"]
+
+/** Non-git snapshots refuse to walk more files than this */
+const MAX_SNAPSHOT_FILES = 20000
+
+/** Files larger than this are fingerprinted but not copied for diffing */
+const MAX_BLOB_SIZE = 1024 * 1024
+
+/** Above this many LCS cells a file's diff degrades to remove-all/add-all */
+const MAX_DIFF_CELLS = 4_000_000
+
+/** pipeline_diff output budget; files past it are left unreviewed */
+const MAX_DIFF_OUTPUT = 100_000
+
+/** git diff flags that print a summary instead of the actual changes */
+const GIT_DIFF_SUMMARY_FLAGS = [
+  "--stat",
+  "--shortstat",
+  "--numstat",
+  "--dirstat",
+  "--name-only",
+  "--name-status",
+  "--summary",
+  "--compact-summary",
+  "--no-patch",
+  "-s",
+  "--quiet",
+  "--exit-code",
+  "--check",
+  "--raw",
+]
+
+/** git's own options (before the subcommand) that take the next word as their value */
+const GIT_GLOBAL_VALUE_OPTIONS = ["-C", "-c", "--git-dir", "--work-tree", "--namespace", "--config-env"]
+
+/**
+ * git diff flags that show something other than the working tree's changes
+ * (the index only, two arbitrary paths) or only part of them (filters,
+ * pickaxe), or send the output elsewhere
+ */
+const GIT_DIFF_PARTIAL_FLAGS = ["--cached", "--staged", "--no-index", "--diff-filter", "-S", "-G", "--output"]
+
+/** Pipeline stages that pass a diff through whole */
+const GIT_DIFF_PAGERS = ["cat", "less", "more"]
 
 /** Valid transitions: current phase -> set of allowed target phases */
-const TRANSITIONS: Record<Phase, Phase[]> = {
+const DEFAULT_TRANSITIONS: Record<Phase, Phase[]> = {
   brainstorming: ["refining"],
   refining: ["dispatching"],
   dispatching: [], // auto-advance only (Task completion)
@@ -43,7 +514,7 @@ const TRANSITIONS: Record<Phase, Phase[]> = {
 }
 
 /** Human-readable target names the model uses -> actual phase */
-const TARGET_ALIASES: Record<string, Phase> = {
+const DEFAULT_ALIASES: Record<string, Phase> = {
   refine: "refining",
   dispatch: "dispatching",
   iterate: "dispatching", // reviewing -> dispatching is "iterate"
@@ -52,32 +523,39 @@ const TARGET_ALIASES: Record<string, Phase> = {
 }
 
 /** Guidance returned to the model after advancing to a new phase */
-const PHASE_GUIDANCE: Record<Phase, string> = {
+const DEFAULT_GUIDANCE: Record<Phase, string> = {
   brainstorming:
     "New request received. Load the brainstorming skill and explore context with the user. Ask clarifying questions, propose approaches, and get design approval before advancing. Call pipeline_advance('refine') when the user approves the design.",
   refining:
-    "Transform the approved design into a precise implementation spec for brir-implementer. Include: files to modify/create (absolute paths), code patterns, expected behavior, test expectations, what NOT to change, and validation commands. Show the spec to the user and ask for approval. Call pipeline_advance('dispatch') when approved.",
+    "Transform the approved design into a precise implementation spec for brir-implementer. Include: files to modify/create (absolute paths), code patterns, expected behavior, test expectations, what NOT to change, and validation commands. Submit it with pipeline_submit_spec, show it to the user and ask for approval. Call pipeline_advance('dispatch') when approved.",
   dispatching:
     "Dispatch the refined spec to brir-implementer via the Task tool. Include the full spec, relevant file contents, success criteria, and validation commands. The pipeline will auto-advance to reviewing when the task completes.",
   reviewing:
-    "Review the implementation. You MUST run `git diff` to see all changes. Read modified files and evaluate against the approved design. Check for bugs, logic errors, missed edge cases, convention violations, and security concerns. Call pipeline_advance('report') when satisfied, or pipeline_advance('iterate') to re-dispatch with fixes.",
+    "Review the implementation. You MUST review every file the implementer changed: run `git diff` (a full diff of the working tree, not --stat, --name-only, --cached or another revision; `git diff HEAD` if files are staged) for tracked files and Read each new untracked file. pipeline_status lists files still unreviewed. Read modified files and evaluate against the approved design. Check for bugs, logic errors, missed edge cases, convention violations, and security concerns. Record every issue with pipeline_review (and mark earlier findings fixed or wontfix). Call pipeline_advance('report') when satisfied, or pipeline_advance('iterate') to re-dispatch with the open findings.",
   reporting:
     "Provide a concise summary: what changed and why, files modified (with line references), review status (approved / approved with caveats), and any remaining concerns or follow-ups. Call pipeline_advance('complete') when done.",
   complete:
     "Pipeline complete. Waiting for next user request.",
 }
 
-/** Review guidance when NOT in a git repo */
+/**
+ * Added to reviewing guidance a project configured itself, when NOT in a
+ * git repo
+ */
+const REVIEWING_NO_GIT_NOTE =
+  "NOTE: This directory is NOT a git repository, so `git diff` is unavailable. Call pipeline_diff to see exactly what the implementer changed (computed from a snapshot taken at dispatch) -- you cannot report until every changed file's diff has been viewed."
+
+/** The default review guidance when NOT in a git repo */
 const REVIEWING_NO_GIT =
-  "Review the implementation. This directory is NOT a git repository, so skip `git diff`. Instead, Read each modified file directly and verify the changes match the approved design. Check for bugs, logic errors, missed edge cases, convention violations, and security concerns. Call pipeline_advance('report') when satisfied, or pipeline_advance('iterate') to re-dispatch with fixes."
+  "Review the implementation. This directory is NOT a git repository, so `git diff` is unavailable. Call pipeline_diff to see exactly what the implementer changed (computed from a snapshot taken at dispatch) -- you cannot report until every changed file's diff has been viewed. Read modified files for context and verify the changes match the approved design. Check for bugs, logic errors, missed edge cases, convention violations, and security concerns. Record every issue with pipeline_review (and mark earlier findings fixed or wontfix). Call pipeline_advance('report') when satisfied, or pipeline_advance('iterate') to re-dispatch with the open findings."
 
 /**
- * Tools the implementer (subagent) is allowed to call.
+ * Tools a subagent may call unless its policy says otherwise.
  * Everything else (MCP tools like nudge, sessiongraph, context7, playwright,
  * chrome-devtools) is blocked to reduce noise and prevent model confusion.
  * Checked case-insensitively.
  */
-const SUBAGENT_ALLOWED_TOOLS = new Set([
+const DEFAULT_SUBAGENT_TOOLS = [
   "read",
   "write",
   "edit",
@@ -92,350 +570,5479 @@ const SUBAGENT_ALLOWED_TOOLS = new Set([
   // Plugin tools -- return graceful errors for non-orchestrator sessions
   "pipeline_advance",
   "pipeline_status",
-])
+]
+
+const DEFAULT_SUBAGENT_POLICY: SubagentPolicy = {
+  allowTools: DEFAULT_SUBAGENT_TOOLS,
+  denyTools: [],
+  allowBash: [],
+  denyBash: [],
+}
+
+/**
+ * Built-in per-agent policies, merged with config.subagents per agent and
+ * key. The orchestrator reviews the uncommitted worktree, so implementers
+ * must not commit, push or publish.
+ */
+const DEFAULT_SUBAGENTS: Record<string, Partial<SubagentPolicy>> = {
+  "brir-implementer": {
+    denyBash: ["git commit*", "git push*", "npm publish*"],
+  },
+}
+
+const POLICY_KEYS = ["allowTools", "denyTools", "allowBash", "denyBash"] as const
+
+const DEFAULT_BUDGET: RunBudget = { maxCost: null, maxTokens: null, onExceed: "warn" }
+
+/** The design approval and the spec approval */
+const DEFAULT_APPROVAL: ApprovalPolicy = {
+  gates: ["brainstorming->refining", "refining->dispatching"],
+  keyword: null,
+}
+
+const HYGIENE_RULES = [
+  "whitespace",
+  "conflict-markers",
+  "secrets",
+  "large-files",
+  "binary-files",
+  "lockfiles",
+  "generated-files",
+  "debug-leftovers",
+] as const
+
+/**
+ * Leftover merge conflicts and credentials block; the rest are worth a
+ * look but often intended (a lockfile that follows a package.json change).
+ */
+const DEFAULT_HYGIENE: HygienePolicy = {
+  rules: {
+    "whitespace": "warn",
+    "conflict-markers": "block",
+    "secrets": "block",
+    "large-files": "warn",
+    "binary-files": "warn",
+    "lockfiles": "warn",
+    "generated-files": "warn",
+    "debug-leftovers": "warn",
+  },
+  maxFileSize: 512 * 1024,
+  lockfiles: [
+    "**/package-lock.json",
+    "**/npm-shrinkwrap.json",
+    "**/yarn.lock",
+    "**/pnpm-lock.yaml",
+    "**/bun.lock",
+    "**/bun.lockb",
+    "**/Cargo.lock",
+    "**/poetry.lock",
+    "**/uv.lock",
+    "**/Gemfile.lock",
+    "**/composer.lock",
+    "**/go.sum",
+  ],
+  generated: ["dist/**", "build/**", "out/**", "coverage/**", "**/*.min.js", "**/*.min.css", "**/*.map", "**/*.generated.*"],
+  debugPatterns: [
+    "\\bconsole\\.(log|debug|trace|dir)\\(",
+    "^\\s*debugger;?\\s*$",
+    "\\b(breakpoint|pdb\\.set_trace)\\(\\)",
+    "\\bbinding\\.pry\\b",
+    "\\bdbg!\\(",
+  ],
+  secretPatterns: [],
+  ignore: [],
+}
+
+const DEFAULT_REPORT: ReportPolicy = { enabled: true, prDescription: false }
+
+const PIPELINE_EVENT_TYPES = [
+  "run_started",
+  "phase_changed",
+  "dispatch_finished",
+  "dispatch_failed",
+  "awaiting_approval",
+  "awaiting_input",
+  "run_complete",
+] as const
+
+const SINK_TYPES = ["command", "webhook", "jsonl"] as const
+const DEFAULT_SINK_TIMEOUT_MS = 10_000
+
+const DEFAULT_NOTIFY: NotifyPolicy = { sinks: [], toasts: true }
+
+/** Always checked by the secrets rule; the match itself is never echoed */
+const SECRET_PATTERNS: Array<{ name: string; regex: RegExp }> = [
+  { name: "a private key", regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+  { name: "an AWS access key", regex: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "a GitHub token", regex: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/ },
+  { name: "a Slack token", regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { name: "a Google API key", regex: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "an API secret key", regex: /\bsk-(ant-|proj-|live_)?[A-Za-z0-9_-]{24,}/ },
+  {
+    name: "a hard-coded credential",
+    regex: /\b(api[_-]?key|secret|password|passwd|access[_-]?token|auth[_-]?token)["']?\s*[:=]\s*["'][^"'\s]{12,}["']/i,
+  },
+]
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
 function freshState(): PipelineState {
+  const now = Date.now()
   return {
-    phase: "brainstorming",
+    runID: `${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    runNumber: 1,
+    name: null,
+    phase: INITIAL_PHASE,
+    phaseEnteredAt: now,
     iterations: 0,
     gitDiffCalled: false,
+    snapshotFile: null,
+    changedFiles: null,
+    reviewedFiles: [],
+    diffViewed: false,
+    specFile: null,
+    scope: null,
     isGitRepo: null,
-    startTime: Date.now(),
+    startTime: now,
     dispatches: 0,
+    dispatchStartedAt: null,
+    validation: [],
+    caveats: [],
+    findings: [],
+    failedDispatches: 0,
+    lastFailure: null,
+    dispatchError: null,
+    dispatchCallID: null,
+    timedOutCalls: [],
+    checkpoints: [],
+    rollbacks: [],
+    subtasks: [],
+    childErrors: {},
+    childWrites: {},
+    children: [],
+    policyViolations: [],
+    phaseUsage: {},
+    dispatchUsage: {},
+    agentUsage: {},
+    messageUsage: {},
+    budgetExceededAt: null,
+    specShownAt: null,
+    lastUserMessageAt: null,
+    lastApprovalAt: null,
+    hygiene: null,
+    request: null,
+    selfReports: [],
+    childCommands: [],
+    discrepancies: [],
+    reportFile: null,
   }
 }
 
-/** Check if a directory is inside a git repository */
-function checkGitRepo(directory: string): boolean {
+function isStringRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Load .opencode/brir.json and merge it over the defaults. `transitions`,
+ * `aliases` and `guidance` merge per key, so a config only needs to name the
+ * phases it adds or changes. Throws with every problem found.
+ */
+function loadConfig(directory: string): PipelineConfig {
+  const file = path.join(directory, CONFIG_FILE)
+  const config: PipelineConfig = {
+    orchestratorAgent: DEFAULT_ORCHESTRATOR_AGENT,
+    maxIterations: DEFAULT_MAX_ITERATIONS,
+    transitions: { ...DEFAULT_TRANSITIONS },
+    aliases: { ...DEFAULT_ALIASES },
+    guidance: { ...DEFAULT_GUIDANCE },
+    validation: [],
+    ignore: [],
+    dispatch: { ...DEFAULT_DISPATCH_POLICY },
+    subagents: { ...DEFAULT_SUBAGENTS },
+    budget: { ...DEFAULT_BUDGET },
+    approval: { ...DEFAULT_APPROVAL },
+    hygiene: { ...DEFAULT_HYGIENE, rules: { ...DEFAULT_HYGIENE.rules } },
+    report: { ...DEFAULT_REPORT },
+    notify: { ...DEFAULT_NOTIFY, sinks: [] },
+  }
+  if (!fs.existsSync(file)) return config
+
+  let raw: unknown
   try {
-    execSync("git rev-parse --is-inside-work-tree", {
-      cwd: directory,
-      stdio: "pipe",
-      timeout: 3000,
-    })
-    return true
-  } catch {
-    return false
+    raw = JSON.parse(fs.readFileSync(file, "utf8"))
+  } catch (err: any) {
+    throw new Error(`Invalid pipeline config ${file}: ${err.message}`)
+  }
+  if (!isStringRecord(raw)) {
+    throw new Error(`Invalid pipeline config ${file}: expected a JSON object`)
   }
-}
 
-/** Get phase guidance, accounting for non-git repos */
-function getPhaseGuidance(phase: Phase, state: PipelineState): string {
-  if (phase === "reviewing" && state.isGitRepo === false) {
-    return REVIEWING_NO_GIT
+  const errors: string[] = []
+
+  for (const key of Object.keys(raw)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      errors.push(`Unknown key '${key}'. Valid keys: ${CONFIG_KEYS.join(", ")}`)
+    }
+  }
+
+  if (raw.orchestratorAgent !== undefined) {
+    if (typeof raw.orchestratorAgent !== "string" || raw.orchestratorAgent === "") {
+      errors.push("'orchestratorAgent' must be a non-empty string")
+    } else {
+      config.orchestratorAgent = raw.orchestratorAgent
+    }
+  }
+
+  if (raw.maxIterations !== undefined) {
+    if (!Number.isInteger(raw.maxIterations) || (raw.maxIterations as number) < 0) {
+      errors.push("'maxIterations' must be a non-negative integer")
+    } else {
+      config.maxIterations = raw.maxIterations as number
+    }
   }
-  return PHASE_GUIDANCE[phase]
-}
 
-function formatStatus(state: PipelineState): string {
-  const valid = TRANSITIONS[state.phase]
-    .map((p) => {
-      for (const [alias, target] of Object.entries(TARGET_ALIASES)) {
-        if (target === p) {
-          if (state.phase === "reviewing" && p === "dispatching") return "iterate"
-          return alias
+  if (raw.transitions !== undefined) {
+    if (!isStringRecord(raw.transitions)) {
+      errors.push("'transitions' must map phase names to arrays of phase names")
+    } else {
+      for (const [phase, targets] of Object.entries(raw.transitions)) {
+        if (!Array.isArray(targets) || targets.some((t) => typeof t !== "string")) {
+          errors.push(`'transitions.${phase}' must be an array of phase names`)
+        } else {
+          config.transitions[phase] = targets
         }
       }
-      return p
-    })
+    }
+  }
 
-  const gitLabel =
-    state.isGitRepo === false
-      ? "n/a (not a git repo)"
-      : state.gitDiffCalled
-        ? "done"
-        : "needed"
+  for (const key of ["aliases", "guidance"] as const) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (!isStringRecord(value)) {
+      errors.push(`'${key}' must be an object of strings`)
+      continue
+    }
+    for (const [name, text] of Object.entries(value)) {
+      if (typeof text !== "string" || text === "") {
+        errors.push(`'${key}.${name}' must be a non-empty string`)
+      } else {
+        config[key][name] = text
+      }
+    }
+  }
 
-  const parts = [
-    `Phase: ${state.phase}`,
-    `Iteration: ${state.iterations}/${MAX_ITERATIONS}`,
-    `git diff: ${gitLabel}`,
-    `Dispatches: ${state.dispatches}`,
-    `Valid transitions: ${valid.length > 0 ? valid.join(", ") : "(none -- automatic)"}`,
-  ]
-  return parts.join(" | ")
-}
+  if (raw.validation !== undefined) {
+    if (!Array.isArray(raw.validation)) {
+      errors.push("'validation' must be an array of { name, command, required?, timeoutMs? }")
+    } else {
+      raw.validation.forEach((check: unknown, i: number) => {
+        const where = `'validation[${i}]'`
+        if (!isStringRecord(check)) {
+          errors.push(`${where} must be an object`)
+          return
+        }
+        if (typeof check.name !== "string" || check.name === "") {
+          errors.push(`${where}.name must be a non-empty string`)
+        }
+        if (typeof check.command !== "string" || check.command === "") {
+          errors.push(`${where}.command must be a non-empty string`)
+        }
+        if (check.required !== undefined && typeof check.required !== "boolean") {
+          errors.push(`${where}.required must be a boolean`)
+        }
+        if (
+          check.timeoutMs !== undefined &&
+          (!Number.isInteger(check.timeoutMs) || (check.timeoutMs as number) <= 0)
+        ) {
+          errors.push(`${where}.timeoutMs must be a positive integer`)
+        }
+        config.validation.push({
+          name: String(check.name),
+          command: String(check.command),
+          required: check.required !== false,
+          timeoutMs: (check.timeoutMs as number | undefined) ?? DEFAULT_VALIDATION_TIMEOUT_MS,
+        })
+      })
+    }
+  }
+
+  if (raw.ignore !== undefined) {
+    if (!Array.isArray(raw.ignore) || raw.ignore.some((p) => typeof p !== "string")) {
+      errors.push("'ignore' must be an array of .gitignore-style patterns")
+    } else {
+      config.ignore = raw.ignore
+    }
+  }
 
-function statusBanner(state: PipelineState): string {
-  const valid = TRANSITIONS[state.phase]
-    .map((p) => {
-      for (const [alias, target] of Object.entries(TARGET_ALIASES)) {
-        if (target === p) {
-          if (state.phase === "reviewing" && p === "dispatching") return "iterate"
-          return alias
+  if (raw.dispatch !== undefined) {
+    if (!isStringRecord(raw.dispatch)) {
+      errors.push("'dispatch' must be an object of { timeoutMs?, maxRetries?, backoffMs?, failOnNoChanges? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.dispatch)) {
+        if (key === "failOnNoChanges") {
+          if (typeof value !== "boolean") errors.push("'dispatch.failOnNoChanges' must be a boolean")
+          else config.dispatch.failOnNoChanges = value
+        } else if (key === "timeoutMs" || key === "maxRetries" || key === "backoffMs") {
+          const min = key === "timeoutMs" ? 1 : 0
+          if (!Number.isInteger(value) || (value as number) < min) {
+            errors.push(`'dispatch.${key}' must be a ${min === 1 ? "positive" : "non-negative"} integer`)
+          } else {
+            config.dispatch[key] = value as number
+          }
+        } else {
+          errors.push(`Unknown key 'dispatch.${key}'`)
         }
       }
-      return p
-    })
+    }
+  }
 
-  const gitLabel =
-    state.isGitRepo === false
-      ? "n/a"
-      : state.gitDiffCalled
-        ? "done"
-        : "needed"
+  if (raw.subagents !== undefined) {
+    if (!isStringRecord(raw.subagents)) {
+      errors.push("'subagents' must map agent names (or \"*\") to { allowTools?, denyTools?, allowBash?, denyBash? }")
+    } else {
+      for (const [agent, policy] of Object.entries(raw.subagents)) {
+        if (!isStringRecord(policy)) {
+          errors.push(`'subagents.${agent}' must be an object`)
+          continue
+        }
+        const merged = { ...config.subagents[agent] }
+        for (const [key, rules] of Object.entries(policy)) {
+          const where = `'subagents.${agent}.${key}'`
+          if (!(POLICY_KEYS as readonly string[]).includes(key)) {
+            errors.push(`Unknown key ${where}. Valid keys: ${POLICY_KEYS.join(", ")}`)
+          } else if (!Array.isArray(rules) || rules.some((r) => typeof r !== "string" || r === "")) {
+            errors.push(`${where} must be an array of globs or /regex/ strings`)
+          } else {
+            for (const rule of rules) {
+              const invalid = invalidPolicyRule(rule)
+              if (invalid) errors.push(`${where}: invalid regex ${rule}: ${invalid}`)
+            }
+            merged[key as keyof SubagentPolicy] = rules
+          }
+        }
+        config.subagents[agent] = merged
+      }
+    }
+  }
 
-  return `[Pipeline: ${state.phase} | iter ${state.iterations}/${MAX_ITERATIONS} | git diff: ${gitLabel} | next: ${valid.join(", ") || "auto"}]`
-}
+  if (raw.budget !== undefined) {
+    if (!isStringRecord(raw.budget)) {
+      errors.push("'budget' must be an object of { maxCost?, maxTokens?, onExceed? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.budget)) {
+        if (key === "maxCost") {
+          if (typeof value !== "number" || !(value > 0)) errors.push("'budget.maxCost' must be a positive number")
+          else config.budget.maxCost = value
+        } else if (key === "maxTokens") {
+          if (!Number.isInteger(value) || (value as number) <= 0) errors.push("'budget.maxTokens' must be a positive integer")
+          else config.budget.maxTokens = value as number
+        } else if (key === "onExceed") {
+          if (value !== "warn" && value !== "block") errors.push("'budget.onExceed' must be \"warn\" or \"block\"")
+          else config.budget.onExceed = value
+        } else {
+          errors.push(`Unknown key 'budget.${key}'`)
+        }
+      }
+    }
+  }
 
-// ---------------------------------------------------------------------------
-// Unified diff patch parsing and application
-// ---------------------------------------------------------------------------
+  if (raw.approval !== undefined) {
+    if (!isStringRecord(raw.approval)) {
+      errors.push("'approval' must be an object of { gates?, keyword? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.approval)) {
+        if (key === "gates") {
+          if (!Array.isArray(value) || value.some((g) => typeof g !== "string")) {
+            errors.push("'approval.gates' must be an array of \"from->to\" phase pairs")
+          } else {
+            config.approval.gates = value.map((g: string) => g.split("->").map((p) => p.trim()).join("->"))
+          }
+        } else if (key === "keyword") {
+          if (value !== null && (typeof value !== "string" || value.trim() === "")) {
+            errors.push("'approval.keyword' must be a non-empty string or null")
+          } else {
+            config.approval.keyword = value === null ? null : value.trim()
+          }
+        } else {
+          errors.push(`Unknown key 'approval.${key}'`)
+        }
+      }
+    }
+  }
 
-interface PatchHunk {
-  oldStart: number
-  oldCount: number
-  newStart: number
-  newCount: number
-  lines: string[]
-}
+  if (raw.hygiene !== undefined) {
+    if (!isStringRecord(raw.hygiene)) {
+      errors.push("'hygiene' must be an object of { rules?, maxFileSize?, lockfiles?, generated?, debugPatterns?, secretPatterns?, ignore? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.hygiene)) {
+        if (key === "rules") {
+          if (!isStringRecord(value)) {
+            errors.push("'hygiene.rules' must map rule names to \"block\", \"warn\" or \"off\"")
+            continue
+          }
+          for (const [rule, level] of Object.entries(value)) {
+            if (!(HYGIENE_RULES as readonly string[]).includes(rule)) {
+              errors.push(`Unknown hygiene rule '${rule}'. Valid rules: ${HYGIENE_RULES.join(", ")}`)
+            } else if (level !== "block" && level !== "warn" && level !== "off") {
+              errors.push(`'hygiene.rules.${rule}' must be "block", "warn" or "off"`)
+            } else {
+              config.hygiene.rules[rule as HygieneRule] = level
+            }
+          }
+        } else if (key === "maxFileSize") {
+          if (!Number.isInteger(value) || (value as number) <= 0) errors.push("'hygiene.maxFileSize' must be a positive integer (bytes)")
+          else config.hygiene.maxFileSize = value as number
+        } else if (key === "lockfiles" || key === "generated" || key === "ignore") {
+          if (!Array.isArray(value) || value.some((g) => typeof g !== "string" || g === "")) {
+            errors.push(`'hygiene.${key}' must be an array of globs`)
+          } else {
+            config.hygiene[key] = value
+          }
+        } else if (key === "debugPatterns" || key === "secretPatterns") {
+          if (!Array.isArray(value) || value.some((p) => typeof p !== "string" || p === "")) {
+            errors.push(`'hygiene.${key}' must be an array of regular expressions`)
+            continue
+          }
+          for (const pattern of value) {
+            try {
+              new RegExp(pattern)
+            } catch (err: any) {
+              errors.push(`'hygiene.${key}': invalid regex ${pattern}: ${err.message}`)
+            }
+          }
+          config.hygiene[key] = value
+        } else {
+          errors.push(`Unknown key 'hygiene.${key}'`)
+        }
+      }
+    }
+  }
 
-interface PatchFile {
-  oldPath: string
-  newPath: string
-  hunks: PatchHunk[]
+  if (raw.report !== undefined) {
+    if (!isStringRecord(raw.report)) {
+      errors.push("'report' must be an object of { enabled?, prDescription? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.report)) {
+        if (key === "enabled" || key === "prDescription") {
+          if (typeof value !== "boolean") errors.push(`'report.${key}' must be a boolean`)
+          else config.report[key] = value
+        } else {
+          errors.push(`Unknown key 'report.${key}'`)
+        }
+      }
+    }
+  }
+
+  if (raw.notify !== undefined) {
+    if (!isStringRecord(raw.notify)) {
+      errors.push("'notify' must be an object of { sinks?, toasts? }")
+    } else {
+      for (const [key, value] of Object.entries(raw.notify)) {
+        if (key === "toasts") {
+          if (typeof value !== "boolean") errors.push("'notify.toasts' must be a boolean")
+          else config.notify.toasts = value
+        } else if (key === "sinks") {
+          if (!Array.isArray(value)) {
+            errors.push("'notify.sinks' must be an array of { type, ... } objects")
+            continue
+          }
+          value.forEach((sink: unknown, i: number) => {
+            errors.push(...parseSink(sink, `notify.sinks[${i}]`, config.notify.sinks))
+          })
+        } else {
+          errors.push(`Unknown key 'notify.${key}'`)
+        }
+      }
+    }
+  }
+
+  errors.push(...validateConfig(config))
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline config ${file}:\n- ${errors.join("\n- ")}`)
+  }
+  return config
 }
 
-/** Strip git-style a/ or b/ prefix and resolve to absolute path */
-function resolvePatchPath(patchPath: string, baseDir: string): string {
-  let cleaned = patchPath
-  if (cleaned.startsWith("a/") || cleaned.startsWith("b/")) {
-    cleaned = cleaned.slice(2)
+/** Validate one `notify.sinks` entry, appending it to `into` if it is valid */
+function parseSink(raw: unknown, where: string, into: EventSink[]): string[] {
+  if (!isStringRecord(raw)) return [`'${where}' must be an object`]
+  const errors: string[] = []
+  const type = raw.type
+  if (!(SINK_TYPES as readonly unknown[]).includes(type)) {
+    return [`'${where}.type' must be one of ${SINK_TYPES.join(", ")}`]
   }
-  if (path.isAbsolute(cleaned)) return cleaned
-  return path.resolve(baseDir, cleaned)
+  const target = type === "command" ? "command" : type === "webhook" ? "url" : "file"
+  const allowed = ["type", target, "events", ...(type === "jsonl" ? [] : ["timeoutMs"]), ...(type === "webhook" ? ["headers"] : [])]
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) errors.push(`Unknown key '${where}.${key}' for a ${type} sink`)
+  }
+  if (typeof raw[target] !== "string" || (raw[target] as string).trim() === "") {
+    errors.push(`'${where}.${target}' must be a non-empty string`)
+  } else if (type === "webhook" && !/^https?:\/\//.test(raw.url as string)) {
+    errors.push(`'${where}.url' must be an http(s) URL`)
+  }
+  let events: PipelineEventType[] | null = null
+  if (raw.events !== undefined) {
+    if (!Array.isArray(raw.events) || raw.events.some((e) => !(PIPELINE_EVENT_TYPES as readonly unknown[]).includes(e))) {
+      errors.push(`'${where}.events' must be an array of event types: ${PIPELINE_EVENT_TYPES.join(", ")}`)
+    } else {
+      events = raw.events
+    }
+  }
+  if (raw.timeoutMs !== undefined && (!Number.isInteger(raw.timeoutMs) || (raw.timeoutMs as number) <= 0)) {
+    errors.push(`'${where}.timeoutMs' must be a positive integer`)
+  }
+  if (raw.headers !== undefined && (!isStringRecord(raw.headers) || Object.values(raw.headers).some((h) => typeof h !== "string"))) {
+    errors.push(`'${where}.headers' must map header names to strings`)
+  }
+  if (errors.length > 0) return errors
+
+  const timeoutMs = (raw.timeoutMs as number | undefined) ?? DEFAULT_SINK_TIMEOUT_MS
+  if (type === "command") into.push({ type, command: raw.command as string, events, timeoutMs })
+  else if (type === "webhook") into.push({ type, url: raw.url as string, headers: (raw.headers as Record<string, string>) ?? {}, events, timeoutMs })
+  else into.push({ type: "jsonl", file: raw.file as string, events })
+  return []
 }
 
-/** Parse a unified diff string into structured file/hunk data */
-function parsePatch(patchText: string): PatchFile[] {
-  const files: PatchFile[] = []
-  const lines = patchText.split("\n")
+/** Check the phase graph for unknown, unreachable and dead-end phases */
+function validateConfig(config: PipelineConfig): string[] {
+  const errors: string[] = []
+  const phases = Object.keys(config.transitions)
+
+  for (const core of CORE_PHASES) {
+    if (!phases.includes(core)) {
+      errors.push(`Missing built-in phase '${core}'`)
+    }
+  }
+
+  for (const [phase, targets] of Object.entries(config.transitions)) {
+    for (const target of targets) {
+      if (!phases.includes(target)) {
+        errors.push(`Phase '${phase}' transitions to unknown phase '${target}'`)
+      } else if (!Object.values(config.aliases).includes(target)) {
+        errors.push(`Phase '${target}' has no alias, so pipeline_advance cannot reach it`)
+      }
+    }
+    if (!config.guidance[phase]) {
+      errors.push(`Phase '${phase}' has no guidance text`)
+    }
+    // dispatching and complete leave automatically (Task completion / new message)
+    if (targets.length === 0 && phase !== "dispatching" && phase !== "complete") {
+      errors.push(`Phase '${phase}' has no way out (no transitions)`)
+    }
+  }
+
+  for (const [alias, target] of Object.entries(config.aliases)) {
+    if (!phases.includes(target)) {
+      errors.push(`Alias '${alias}' points to unknown phase '${target}'`)
+    }
+  }
+
+  for (const gate of config.approval.gates) {
+    const [from, to] = gate.split("->").map((p) => p.trim())
+    if (!from || !to || !config.transitions[from]?.includes(to)) {
+      errors.push(`Approval gate '${gate}' is not a transition ("from->to") of the phase graph`)
+    }
+  }
+
+  // Reachability from the initial phase, including the automatic edges
+  const reached = new Set<Phase>([INITIAL_PHASE])
+  const queue: Phase[] = [INITIAL_PHASE]
+  while (queue.length > 0) {
+    const phase = queue.shift()!
+    const next = [...(config.transitions[phase] ?? [])]
+    if (phase === "dispatching") next.push("reviewing")
+    for (const target of next) {
+      if (!reached.has(target) && phases.includes(target)) {
+        reached.add(target)
+        queue.push(target)
+      }
+    }
+  }
+  for (const phase of phases) {
+    if (!reached.has(phase)) {
+      errors.push(`Phase '${phase}' is unreachable from '${INITIAL_PHASE}'`)
+    }
+  }
+
+  return errors
+}
+
+function emptyStore(): StateStore {
+  return { version: 1, sessions: {}, runs: {} }
+}
+
+/**
+ * Read the state store. A missing or corrupt file yields an empty store --
+ * losing history is preferable to refusing to run.
+ */
+function readStore(file: string): StateStore {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"))
+    if (parsed?.version !== 1) return emptyStore()
+    return { version: 1, sessions: parsed.sessions ?? {}, runs: parsed.runs ?? {} }
+  } catch {
+    return emptyStore()
+  }
+}
+
+/** Modification time of a file, or null if it does not exist */
+function fileMtime(file: string): number | null {
+  try {
+    return fs.statSync(file).mtimeMs
+  } catch {
+    return null
+  }
+}
+
+/** When a persisted run last changed phase or heard from the user */
+function lastActivity(state: PersistedState): number {
+  return Math.max(state.startTime, state.phaseEnteredAt ?? 0, state.lastUserMessageAt ?? 0)
+}
+
+/**
+ * Drop sessions idle for longer than STORE_RETENTION_MS (the history
+ * journal keeps their record) and all but the last MAX_RUN_RECORDS runs of
+ * each session. Returns whether anything was dropped.
+ */
+function pruneStore(store: StateStore, now: number): boolean {
+  let pruned = false
+  for (const [id, state] of Object.entries(store.sessions)) {
+    if (now - lastActivity(state) > STORE_RETENTION_MS) {
+      delete store.sessions[id]
+      pruned = true
+    }
+  }
+  for (const [id, runs] of Object.entries(store.runs)) {
+    const last = runs[runs.length - 1]
+    if (!store.sessions[id] && (!last || now - last.endTime > STORE_RETENTION_MS)) {
+      delete store.runs[id]
+      pruned = true
+    } else if (runs.length > MAX_RUN_RECORDS) {
+      store.runs[id] = runs.slice(-MAX_RUN_RECORDS)
+      pruned = true
+    }
+  }
+  return pruned
+}
+
+/** Forget the usage totals of all but the `keep` most recent messages */
+function trimMessageUsage(state: PipelineState, keep: number): void {
+  const ids = Object.keys(state.messageUsage)
+  for (const id of ids.slice(0, Math.max(0, ids.length - keep))) {
+    delete state.messageUsage[id]
+  }
+}
+
+/** Create the plugin directory on first use */
+function ensureBrirDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+    // Keep plugin state out of the user's commits
+    fs.writeFileSync(path.join(dir, ".gitignore"), "*\n")
+  }
+}
+
+/** Write the state store atomically (temp file + rename) */
+function writeStore(file: string, store: StateStore): void {
+  ensureBrirDir(path.dirname(file))
+  const tmp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmp, JSON.stringify(store, null, 2))
+  fs.renameSync(tmp, file)
+}
+
+function toPersisted(state: PipelineState): PersistedState {
+  const { isGitRepo: _, ...persisted } = state
+  return persisted
+}
+
+/** Older stores may lack newer fields; freshState() fills them in */
+function fromPersisted(persisted: PersistedState): PipelineState {
+  return { ...freshState(), ...persisted, isGitRepo: null }
+}
+
+/** Read history events, skipping malformed lines */
+function readHistory(file: string): HistoryEvent[] {
+  if (!fs.existsSync(file)) return []
+  const events: HistoryEvent[] = []
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue
+    try {
+      events.push(JSON.parse(line))
+    } catch {
+      // Truncated write (crash mid-append) -- skip it
+    }
+  }
+  return events
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+/** Time spent in each phase of one run, derived from its transitions */
+function phaseDurations(events: HistoryEvent[], now: number): Map<Phase, number> {
+  const durations = new Map<Phase, number>()
+  let current: { phase: Phase; since: number } | null = null
+  for (const event of events) {
+    if (event.type === "run_start") {
+      current = { phase: event.to ?? INITIAL_PHASE, since: event.ts }
+    } else if (event.type === "transition" && event.to) {
+      if (current) {
+        durations.set(current.phase, (durations.get(current.phase) ?? 0) + event.ts - current.since)
+      }
+      current = { phase: event.to, since: event.ts }
+    } else if (event.type === "run_end") {
+      // An aborted run ends in the phase it was in
+      if (current && current.phase !== "complete") {
+        durations.set(current.phase, (durations.get(current.phase) ?? 0) + event.ts - current.since)
+      }
+      current = null
+    }
+  }
+  if (current && current.phase !== "complete") {
+    durations.set(current.phase, (durations.get(current.phase) ?? 0) + now - current.since)
+  }
+  return durations
+}
+
+/** One-line summary per run plus averages across runs */
+function summarizeHistory(events: HistoryEvent[], limit: number): string {
+  const runs = new Map<string, HistoryEvent[]>()
+  for (const event of events) {
+    if (!event.runID) continue
+    const list = runs.get(event.runID) ?? []
+    list.push(event)
+    runs.set(event.runID, list)
+  }
+  if (runs.size === 0) return "No pipeline runs recorded yet."
+
+  const now = Date.now()
+  const all = [...runs.entries()].sort((a, b) => a[1][0].ts - b[1][0].ts)
+  const recent = all.slice(-limit)
+
+  const lines = [`Pipeline runs (${recent.length} of ${all.length}, oldest first):`]
+  for (const [runID, runEvents] of recent) {
+    const start = runEvents[0].ts
+    const end = runEvents.find((e) => e.type === "run_end")
+    const last = runEvents[runEvents.length - 1]
+    const iterations = Math.max(0, ...runEvents.map((e) => e.iteration ?? 0))
+    const dispatches = runEvents.filter((e) => e.type === "dispatch_start").length
+    const failed = runEvents.filter((e) => e.type === "dispatch_end" && e.outcome === "failed").length
+    const blocked = runEvents.filter((e) => e.type === "tool_blocked" || e.type === "policy_violation").length
+    const status = end ? end.outcome ?? "ended" : `in progress (${last.to ?? last.type})`
+    lines.push(
+      `- ${runID} | ${new Date(start).toISOString()} | ${status} | ` +
+      `${iterations} iteration(s), ${dispatches} dispatch(es)` +
+      (failed > 0 ? ` (${failed} failed)` : "") +
+      (blocked > 0 ? `, ${blocked} blocked tool call(s)` : "") +
+      ` | ${formatDuration((end?.ts ?? now) - start)}`
+    )
+  }
+
+  const completed = all.filter(([, e]) => e.some((x) => x.type === "run_end" && x.outcome === "complete"))
+  if (completed.length > 0) {
+    const totals = new Map<Phase, number>()
+    let iterationTotal = 0
+    for (const [, runEvents] of completed) {
+      iterationTotal += Math.max(0, ...runEvents.map((e) => e.iteration ?? 0))
+      for (const [phase, ms] of phaseDurations(runEvents, now)) {
+        totals.set(phase, (totals.get(phase) ?? 0) + ms)
+      }
+    }
+    const byPhase = [...totals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([phase, ms]) => `${phase} ${formatDuration(ms / completed.length)}`)
+    lines.push(
+      "",
+      `Completed runs: ${completed.length}`,
+      `Average iterations: ${(iterationTotal / completed.length).toFixed(1)}`,
+      `Average time per phase (longest first): ${byPhase.join(", ")}`
+    )
+
+    // Spend is only journaled by runs that recorded usage
+    const spent = completed
+      .map(([, e]) => e.find((x) => x.type === "run_end" && x.outcome === "complete"))
+      .filter((end): end is HistoryEvent => end?.phaseUsage !== undefined)
+    if (spent.length > 0) {
+      const costs: Record<string, Usage> = {}
+      for (const end of spent) {
+        for (const [phase, u] of Object.entries(end.phaseUsage!)) addUsage(costs, phase, u)
+        if (end.dispatchUsage) addUsage(costs, "implementer dispatches", end.dispatchUsage)
+      }
+      const byCost = Object.entries(costs)
+        .sort((a, b) => b[1].cost - a[1].cost)
+        .map(([name, u]) => `${name} $${(u.cost / spent.length).toFixed(2)} (${formatTokens(usageTokens(u) / spent.length)} tokens)`)
+      lines.push(`Average spend per run (highest first): ${byCost.join(", ")}`)
+    }
+  }
+
+  return lines.join("\n")
+}
+
+/** Full timeline of one run */
+function formatRunTimeline(events: HistoryEvent[], runID: string): string {
+  const runEvents = events.filter((e) => e.runID === runID)
+  if (runEvents.length === 0) return `ERROR: No history for run '${runID}'.`
+
+  const start = runEvents[0].ts
+  const lines = [`Run ${runID} (session ${runEvents[0].sessionID}):`]
+  for (const event of runEvents) {
+    const at = `+${formatDuration(event.ts - start)}`
+    const inDispatch = event.dispatch !== undefined ? ` in dispatch ${event.dispatch}` : ""
+    switch (event.type) {
+      case "run_start":
+        lines.push(`${at} started in ${event.to}${event.reason ? ` as ${event.reason}` : ""}`)
+        break
+      case "transition":
+        lines.push(
+          `${at} ${event.from} -> ${event.to}` +
+          (event.reason ? ` -- ${event.reason}` : "")
+        )
+        break
+      case "dispatch_start":
+        lines.push(`${at} dispatch${event.dispatch !== undefined ? ` ${event.dispatch}` : ""} started (iteration ${event.iteration ?? 0})`)
+        break
+      case "dispatch_end":
+        lines.push(
+          `${at} dispatch${event.dispatch !== undefined ? ` ${event.dispatch}` : ""} ${event.outcome} after ${formatDuration(event.durationMs ?? 0)}` +
+          (event.reason ? ` -- ${event.reason}` : "")
+        )
+        break
+      case "tool_blocked":
+        lines.push(`${at} blocked tool '${event.tool}'${inDispatch}${event.reason ? `: ${event.reason}` : ""}`)
+        break
+      case "scope_violation":
+        lines.push(`${at} changed outside the dispatch scope: ${event.reason}`)
+        break
+      case "policy_violation":
+        lines.push(`${at} policy blocked '${event.tool}'${inDispatch}: ${event.reason}`)
+        break
+      case "child_session":
+        lines.push(`${at} ${event.agent ?? "subagent"} session ${event.sessionID} started${inDispatch}`)
+        break
+      case "budget_exceeded":
+        lines.push(`${at} over budget: ${event.reason}`)
+        break
+      case "child_error":
+        lines.push(`${at} session ${event.sessionID}${inDispatch} errored: ${event.reason}`)
+        break
+      case "review":
+        lines.push(`${at} review: ${event.reason}`)
+        break
+      case "rollback":
+        lines.push(`${at} rolled back to the start of iteration ${event.iteration}${event.reason ? ` -- ${event.reason}` : ""}`)
+        break
+      case "run_end":
+        lines.push(
+          `${at} ended: ${event.outcome} (${event.dispatches ?? 0} dispatch(es), ` +
+          `${event.iteration ?? 0} iteration(s))` +
+          (event.reason ? ` -- ${event.reason}` : "")
+        )
+        break
+    }
+  }
+
+  const durations = [...phaseDurations(runEvents, Date.now()).entries()]
+    .map(([phase, ms]) => `${phase} ${formatDuration(ms)}`)
+  lines.push("", `Time per phase: ${durations.join(", ")}`)
+  return lines.join("\n")
+}
+
+/** Run one validation command in the project directory */
+function runCheck(check: ValidationCheck, directory: string): Promise<ValidationResult> {
+  const started = Date.now()
+  return new Promise((resolve) => {
+    exec(
+      check.command,
+      { cwd: directory, timeout: check.timeoutMs, maxBuffer: 16 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        let exitCode: number | null = 0
+        let output = `${stdout}${stderr}`
+        if (err) {
+          exitCode = typeof err.code === "number" && !err.killed ? err.code : null
+          if (err.killed) output += `\n[timed out after ${check.timeoutMs}ms]`
+          else if (exitCode === null) output += `\n${err.message}`
+        }
+        resolve({
+          name: check.name,
+          command: check.command,
+          required: check.required,
+          exitCode,
+          output: output.trim().slice(-VALIDATION_OUTPUT_LIMIT),
+          durationMs: Date.now() - started,
+        })
+      }
+    )
+  })
+}
+
+/** Run every configured check in order (sequentially -- they often share build output) */
+async function runValidation(
+  checks: ValidationCheck[],
+  directory: string
+): Promise<ValidationResult[]> {
+  const results: ValidationResult[] = []
+  for (const check of checks) {
+    results.push(await runCheck(check, directory))
+  }
+  return results
+}
+
+/** Required checks that did not exit 0 */
+function failedRequiredChecks(results: ValidationResult[]): ValidationResult[] {
+  return results.filter((r) => r.required && r.exitCode !== 0)
+}
+
+function formatValidation(results: ValidationResult[], withOutput: boolean): string {
+  return results
+    .map((r) => {
+      const status = r.exitCode === 0 ? "PASS" : "FAIL"
+      const exit = r.exitCode === null ? "no exit code" : `exit ${r.exitCode}`
+      const line = `- ${status} ${r.name}${r.required ? "" : " (optional)"}: \`${r.command}\` (${exit}, ${Math.round(r.durationMs / 1000)}s)`
+      if (!withOutput || r.exitCode === 0 || !r.output) return line
+      return `${line}\n  Output (tail):\n${r.output.split("\n").map((l) => `    ${l}`).join("\n")}`
+    })
+    .join("\n")
+}
+
+/** Check if a directory is inside a git repository */
+function checkGitRepo(directory: string): boolean {
+  try {
+    execSync("git rev-parse --is-inside-work-tree", {
+      cwd: directory,
+      stdio: "pipe",
+      timeout: 3000,
+    })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Get phase guidance, accounting for non-git repos */
+function getPhaseGuidance(
+  config: PipelineConfig,
+  phase: Phase,
+  state: PipelineState
+): string {
+  if (phase === "reviewing") {
+    let text = config.guidance[phase]
+    if (state.isGitRepo === false) {
+      text = text === DEFAULT_GUIDANCE.reviewing ? REVIEWING_NO_GIT : `${text}\n\n${REVIEWING_NO_GIT_NOTE}`
+    }
+    if (state.hygiene && state.hygiene.length > 0) {
+      text +=
+        `\n\nDIFF HYGIENE -- found by the plugin in this change set (BLOCK issues prevent report):\n` +
+        state.hygiene.map((i) => `- ${formatHygieneIssue(i)}`).join("\n")
+    }
+    if (state.discrepancies.length > 0) {
+      text +=
+        `\n\nSELF-REPORT DISCREPANCIES -- the implementer's claims that the change set or its bash calls contradict:\n` +
+        state.discrepancies.map((d) => `- ${d}`).join("\n")
+    }
+    return text
+  }
+  const guidance = config.guidance[phase] ?? `Unknown phase '${phase}'.`
+  if (phase === "reporting") {
+    let text = guidance
+    if (state.caveats.length > 0) {
+      text +=
+        `\n\nMANDATORY CAVEATS -- the report MUST list these as unresolved:\n` +
+        state.caveats.map((c) => `- ${c}`).join("\n")
+    }
+    if (state.rollbacks.length > 0) {
+      text +=
+        `\n\nROLLED BACK -- the report MUST say which iterations were discarded:\n` +
+        state.rollbacks.map((r) => `- ${formatRollback(r)}`).join("\n")
+    }
+    return text
+  }
+  return guidance
+}
+
+/**
+ * Name the model should pass to pipeline_advance to reach `target`.
+ * Returning to dispatching after the first dispatch is always "iterate".
+ */
+function targetName(
+  config: PipelineConfig,
+  state: PipelineState,
+  target: Phase
+): string {
+  if (target === "dispatching" && state.dispatches > 0 && config.aliases.iterate === target) {
+    return "iterate"
+  }
+  const aliases = Object.entries(config.aliases).filter(([, p]) => p === target)
+  const preferred = aliases.find(([alias]) => alias !== "iterate") ?? aliases[0]
+  return preferred ? preferred[0] : target
+}
+
+/** Targets valid from the current phase, as names for pipeline_advance */
+function validTargets(config: PipelineConfig, state: PipelineState): string[] {
+  return (config.transitions[state.phase] ?? []).map((p) =>
+    targetName(config, state, p)
+  )
+}
+
+function validationLabel(state: PipelineState): string {
+  if (state.validation.length === 0) return "not run"
+  const failed = failedRequiredChecks(state.validation).length
+  const passed = state.validation.filter((r) => r.exitCode === 0).length
+  return `${passed}/${state.validation.length} passed${failed > 0 ? `, ${failed} required failing` : ""}`
+}
+
+/** Review progress: changed files covered, or the git diff fallback */
+function reviewLabel(state: PipelineState): string {
+  if (state.changedFiles) {
+    const reviewed = state.changedFiles.length - unreviewedFiles(state).length
+    return `${reviewed}/${state.changedFiles.length} changed files`
+  }
+  if (state.isGitRepo === false) return "n/a (no snapshot)"
+  return state.gitDiffCalled ? "git diff done" : "git diff needed"
+}
+
+/**
+ * Why a human-gated transition is not approved yet, or null if it is (or is
+ * not gated). Approval is a user message newer than both entering the
+ * current phase and the last submitted spec -- never one from the same turn.
+ */
+function approvalMissing(config: PipelineConfig, state: PipelineState, target: Phase): string | null {
+  if (!config.approval.gates.includes(`${state.phase}->${target}`)) return null
+  const specShown = state.specShownAt !== null && state.specShownAt >= state.phaseEnteredAt
+  const since = specShown ? state.specShownAt! : state.phaseEnteredAt
+  const event = specShown ? "the spec was submitted" : `${state.phase} began`
+  if ((state.lastUserMessageAt ?? 0) <= since) {
+    return `no user message has arrived since ${event}`
+  }
+  if ((state.lastApprovalAt ?? 0) <= since) {
+    return `no user message since ${event} contains the approval keyword '${config.approval.keyword}'`
+  }
+  return null
+}
+
+/** Whether a user's message counts as approval under the configured keyword */
+function isApproval(config: PipelineConfig, text: string): boolean {
+  const keyword = config.approval.keyword
+  if (!keyword) return true
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`(^|\\W)${escaped}(\\W|$)`, "i").test(text)
+}
+
+/** "run #2", or 'run #2 "retry auth"' for a named run */
+function runLabel(run: { runNumber: number; name: string | null }): string {
+  return `run #${run.runNumber}${run.name ? ` "${run.name}"` : ""}`
+}
+
+function formatRunRecord(r: RunRecord): string {
+  return (
+    `${runLabel(r)}: ${r.outcome}${r.outcome === "complete" ? "" : ` in ${r.phase}`}` +
+    `${r.reason ? ` -- ${r.reason}` : ""} ` +
+    `(${r.dispatches} dispatch(es), ${r.iterations} iteration(s), $${r.cost.toFixed(2)})` +
+    (r.reportFile ? ` -- report ${path.join(BRIR_DIR, r.reportFile)}` : "")
+  )
+}
+
+function formatStatus(config: PipelineConfig, state: PipelineState): string {
+  const valid = validTargets(config, state)
+
+  const parts = [
+    `Run: ${runLabel(state).replace(/^run /, "")}`,
+    `Phase: ${state.phase}`,
+    `Iteration: ${state.iterations}/${config.maxIterations}`,
+    `Reviewed: ${reviewLabel(state)}`,
+    `Dispatches: ${state.dispatches}${state.failedDispatches > 0 ? ` (${state.failedDispatches} failed)` : ""}`,
+    ...(config.validation.length > 0 ? [`Validation: ${validationLabel(state)}`] : []),
+    ...(state.hygiene !== null ? [`Hygiene: ${hygieneLabel(state)}`] : []),
+    `Spend: $${runUsage(state).cost.toFixed(2)}${budgetExceeded(config, state) ? " (OVER BUDGET)" : ""}`,
+    `Valid transitions: ${valid.length > 0 ? valid.join(", ") : "(none -- automatic)"}`,
+  ]
+  return parts.join(" | ")
+}
+
+function statusBanner(config: PipelineConfig, state: PipelineState): string {
+  const valid = validTargets(config, state)
+
+  const over = budgetExceeded(config, state)
+  return `[Pipeline: ${state.phase} | iter ${state.iterations}/${config.maxIterations} | reviewed: ${reviewLabel(state)}${over ? ` | OVER BUDGET: ${over}` : ""} | next: ${valid.join(", ") || "auto"}]`
+}
+
+// ---------------------------------------------------------------------------
+// Change tracking -- worktree snapshots and review coverage
+// ---------------------------------------------------------------------------
+
+/** Normalize to a project-relative, forward-slash path */
+function toProjectPath(filePath: string, directory: string): string {
+  const abs = path.isAbsolute(filePath) ? filePath : path.resolve(directory, filePath)
+  return path.relative(directory, abs).split(path.sep).join("/")
+}
+
+/** Whether a project path belongs to the plugin's own state directory */
+function isPluginPath(relPath: string): boolean {
+  const brir = BRIR_DIR.split(path.sep).join("/")
+  return relPath === brir || relPath.startsWith(`${brir}/`)
+}
+
+/** Tracked plus untracked-but-not-ignored files, per git */
+function listGitFiles(directory: string): { files: string[]; untracked: Set<string> } {
+  const run = (args: string) =>
+    execSync(`git ls-files -z ${args}`, {
+      cwd: directory,
+      stdio: ["ignore", "pipe", "pipe"],
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: 30000,
+    })
+      .toString("utf8")
+      .split("\0")
+      .filter((f) => f !== "" && !isPluginPath(f))
+  const tracked = run("--cached")
+  const untracked = run("--others --exclude-standard")
+  return { files: [...new Set([...tracked, ...untracked])], untracked: new Set(untracked) }
+}
+
+/**
+ * Convert a glob to an anchored RegExp: `**` crosses directories, `*` and
+ * `?` do not, `[...]` classes pass through.
+ */
+function globToRegExp(glob: string): RegExp {
+  let re = ""
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?"
+          i += 2
+        } else {
+          re += ".*"
+          i++
+        }
+      } else {
+        re += "[^/]*"
+      }
+    } else if (c === "?") {
+      re += "[^/]"
+    } else if (c === "[") {
+      const close = glob.indexOf("]", i + 1)
+      if (close === -1) {
+        re += "\\["
+      } else {
+        re += `[${glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+        i = close
+      }
+    } else {
+      re += c.replace(/[.+^${}()|\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+interface IgnoreRule {
+  regex: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+/**
+ * Parse .gitignore-style patterns. A pattern without an inner slash matches
+ * at any depth; one with a slash is anchored to the project root.
+ */
+function parseIgnorePatterns(patterns: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+  for (const raw of patterns) {
+    let pattern = raw.trim()
+    if (!pattern || pattern.startsWith("#")) continue
+    const negate = pattern.startsWith("!")
+    if (negate) pattern = pattern.slice(1)
+    const dirOnly = pattern.endsWith("/")
+    pattern = pattern.replace(/\/+$/, "")
+    const anchored = pattern.includes("/")
+    pattern = pattern.replace(/^\//, "")
+    const regex = globToRegExp(anchored ? pattern : `**/${pattern}`)
+    rules.push({ regex, negate, dirOnly })
+  }
+  return rules
+}
+
+/** Last matching rule wins, as in git */
+function isIgnored(relPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue
+    if (rule.regex.test(relPath)) ignored = !rule.negate
+  }
+  return ignored
+}
+
+/**
+ * Walk a non-git project, honoring DEFAULT_IGNORE, the root .gitignore and
+ * configured patterns. Ignored directories are not descended into.
+ */
+function listFilesystemFiles(directory: string, extraIgnore: string[]): string[] {
+  const gitignorePath = path.join(directory, ".gitignore")
+  const gitignore = fs.existsSync(gitignorePath)
+    ? fs.readFileSync(gitignorePath, "utf8").split("\n")
+    : []
+  const rules = parseIgnorePatterns([...DEFAULT_IGNORE, ...gitignore, ...extraIgnore])
+
+  const files: string[] = []
+  const walk = (relDir: string) => {
+    const entries = fs.readdirSync(path.join(directory, relDir), { withFileTypes: true })
+    for (const entry of entries) {
+      const rel = relDir ? `${relDir}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        if (!isIgnored(rel, true, rules)) walk(rel)
+      } else if (entry.isFile() && !isIgnored(rel, false, rules)) {
+        files.push(rel)
+        if (files.length > MAX_SNAPSHOT_FILES) {
+          throw new Error(
+            `more than ${MAX_SNAPSHOT_FILES} files -- add patterns to 'ignore' in .opencode/brir.json`
+          )
+        }
+      }
+    }
+  }
+  walk("")
+  return files
+}
+
+function hashContent(content: Buffer): string {
+  return crypto.createHash("sha1").update(content).digest("hex")
+}
+
+/**
+ * Fingerprint the given files. Files whose size and mtime match `previous`
+ * reuse its hash instead of being read again. Missing files are skipped.
+ */
+function takeSnapshot(directory: string, files: string[], previous: Snapshot = {}): Snapshot {
+  const snapshot: Snapshot = {}
+  for (const rel of files) {
+    const abs = path.join(directory, rel)
+    let stat: fs.Stats
+    try {
+      stat = fs.statSync(abs)
+    } catch {
+      continue // deleted but still in the index
+    }
+    if (!stat.isFile()) continue
+    const prior = previous[rel]
+    if (prior && prior.size === stat.size && prior.mtimeMs === stat.mtimeMs) {
+      snapshot[rel] = prior
+      continue
+    }
+    snapshot[rel] = {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      hash: hashContent(fs.readFileSync(abs)),
+    }
+  }
+  return snapshot
+}
+
+/** Copy snapshot contents into the object store (skipping large and known blobs) */
+function storeBlobs(directory: string, objectsDir: string, snapshot: Snapshot): void {
+  fs.mkdirSync(objectsDir, { recursive: true })
+  for (const [rel, entry] of Object.entries(snapshot)) {
+    if (entry.size > MAX_BLOB_SIZE) continue
+    const blob = path.join(objectsDir, entry.hash)
+    if (!fs.existsSync(blob)) fs.copyFileSync(path.join(directory, rel), blob)
+  }
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0)
+}
+
+/** Split text into lines, dropping the empty element after a final newline */
+function splitLines(text: string): string[] {
+  if (text === "") return []
+  const lines = text.split("\n")
+  if (lines[lines.length - 1] === "") lines.pop()
+  return lines
+}
+
+type DiffOp = { op: " " | "-" | "+"; text: string }
+
+/** Line-level edit script via LCS, after trimming the common prefix/suffix */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((text) => ({ op: " ", text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  if (n * m > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((text): DiffOp => ({ op: "-", text })))
+    ops.push(...midB.map((text): DiffOp => ({ op: "+", text })))
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ op: " ", text: midA[i++] })
+        j++
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push({ op: "-", text: midA[i++] })
+      } else {
+        ops.push({ op: "+", text: midB[j++] })
+      }
+    }
+    while (i < n) ops.push({ op: "-", text: midA[i++] })
+    while (j < m) ops.push({ op: "+", text: midB[j++] })
+  }
+
+  ops.push(...a.slice(endA).map((text): DiffOp => ({ op: " ", text })))
+  return ops
+}
+
+/** Group an edit script into unified-diff hunks with `context` lines */
+function formatHunks(ops: DiffOp[], context = 3): string[] {
+  const oldNo: number[] = []
+  const newNo: number[] = []
+  let o = 1
+  let n = 1
+  for (const op of ops) {
+    oldNo.push(o)
+    newNo.push(n)
+    if (op.op !== "+") o++
+    if (op.op !== "-") n++
+  }
+
+  const out: string[] = []
+  let idx = 0
+  while (idx < ops.length) {
+    while (idx < ops.length && ops[idx].op === " ") idx++
+    if (idx >= ops.length) break
+
+    const start = Math.max(0, idx - context)
+    let last = idx
+    for (let k = idx; k < ops.length && k - last <= 2 * context; k++) {
+      if (ops[k].op !== " ") last = k
+    }
+    const end = Math.min(ops.length, last + context + 1)
+
+    const slice = ops.slice(start, end)
+    const oldCount = slice.filter((x) => x.op !== "+").length
+    const newCount = slice.filter((x) => x.op !== "-").length
+    const oldStart = oldCount === 0 ? oldNo[start] - 1 : oldNo[start]
+    const newStart = newCount === 0 ? newNo[start] - 1 : newNo[start]
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    out.push(...slice.map((x) => `${x.op}${x.text}`))
+    idx = end
+  }
+  return out
+}
+
+/**
+ * Unified diff of one file. `before`/`after` are null when the file did not
+ * exist on that side, or the string "large" when its old content was not
+ * captured.
+ */
+function unifiedDiff(relPath: string, before: Buffer | null | "large", after: Buffer | null): string {
+  const header = [
+    before === null ? "--- /dev/null" : `--- a/${relPath}`,
+    after === null ? "+++ /dev/null" : `+++ b/${relPath}`,
+  ]
+  if (before === "large") {
+    return [...header, `(previous content not captured: larger than ${MAX_BLOB_SIZE} bytes)`].join("\n")
+  }
+  if ((before && isBinary(before)) || (after && isBinary(after))) {
+    return [...header, "Binary files differ"].join("\n")
+  }
+  const hunks = formatHunks(
+    diffLines(splitLines(before?.toString("utf8") ?? ""), splitLines(after?.toString("utf8") ?? ""))
+  )
+  if (hunks.length === 0) {
+    return [...header, "(only the trailing newline changed)"].join("\n")
+  }
+  return [...header, ...hunks].join("\n")
+}
+
+/**
+ * Record the tracked worktree content as a commit (`git stash create`, or
+ * HEAD when clean) and pin it under refs/brir/ so gc keeps it. Null when the
+ * repository has no commits yet.
+ */
+function createGitCheckpoint(directory: string, refName: string): string | null {
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: directory, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim()
+  try {
+    const sha = git("stash", "create") || git("rev-parse", "--verify", "HEAD")
+    git("update-ref", `refs/brir/${refName}`, sha)
+    return sha
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Drop a finished run's checkpoints: its refs/brir/<run>/ refs, its snapshot
+ * files, and stored objects that no remaining snapshot refers to.
+ */
+function discardCheckpoints(directory: string, runID: string): void {
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: directory, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim()
+  try {
+    for (const ref of git("for-each-ref", "--format=%(refname)", `refs/brir/${runID}/`).split("\n")) {
+      if (ref) git("update-ref", "-d", ref)
+    }
+  } catch {
+    // Not a git repository: there are no refs
+  }
+
+  const snapshotDir = path.join(directory, BRIR_DIR, SNAPSHOT_DIR)
+  const objectsDir = path.join(directory, BRIR_DIR, OBJECTS_DIR)
+  if (!fs.existsSync(snapshotDir)) return
+  const referenced = new Set<string>()
+  for (const name of fs.readdirSync(snapshotDir)) {
+    const file = path.join(snapshotDir, name)
+    if (name.startsWith(`${runID}-`)) {
+      fs.rmSync(file, { force: true })
+      continue
+    }
+    try {
+      const snapshot: Snapshot = JSON.parse(fs.readFileSync(file, "utf8"))
+      for (const entry of Object.values(snapshot)) referenced.add(entry.hash)
+    } catch {
+      return // An unreadable snapshot might need any object -- keep them all
+    }
+  }
+  if (!fs.existsSync(objectsDir)) return
+  for (const hash of fs.readdirSync(objectsDir)) {
+    if (!referenced.has(hash)) fs.rmSync(path.join(objectsDir, hash), { force: true })
+  }
+}
+
+function formatRollback(r: Rollback): string {
+  const undone = r.undone.length > 0 ? `iteration(s) ${r.undone.join(", ")} discarded` : "nothing discarded"
+  return `restored the start of iteration ${r.toIteration} (${undone})${r.reason ? ` -- ${r.reason}` : ""}`
+}
+
+/**
+ * Content of a checkpointed file: from the object store, or from the
+ * checkpoint's git commit. Null unless it matches the recorded hash.
+ */
+function checkpointContent(
+  directory: string,
+  checkpoint: Checkpoint,
+  rel: string,
+  entry: FileEntry
+): Buffer | null {
+  const blob = path.join(directory, BRIR_DIR, OBJECTS_DIR, entry.hash)
+  let content: Buffer | null = null
+  if (fs.existsSync(blob)) {
+    content = fs.readFileSync(blob)
+  } else if (checkpoint.gitRef) {
+    try {
+      content = execFileSync("git", ["show", `${checkpoint.gitRef}:${rel}`], {
+        cwd: directory,
+        maxBuffer: 64 * 1024 * 1024,
+        stdio: ["ignore", "pipe", "ignore"],
+      })
+    } catch {
+      content = null
+    }
+  }
+  return content && hashContent(content) === entry.hash ? content : null
+}
+
+/**
+ * Put the worktree back to a checkpoint: rewrite files that differ, delete
+ * files it did not have. All contents are resolved before anything is
+ * touched, so a checkpoint that cannot be fully restored changes nothing.
+ */
+function restoreCheckpoint(
+  directory: string,
+  checkpoint: Checkpoint,
+  current: Snapshot
+): { restored: string[]; deleted: string[] } {
+  const target: Snapshot = JSON.parse(
+    fs.readFileSync(path.join(directory, BRIR_DIR, checkpoint.snapshotFile), "utf8")
+  )
+
+  const writes = new Map<string, Buffer>()
+  const missing: string[] = []
+  for (const [rel, entry] of Object.entries(target)) {
+    if (current[rel]?.hash === entry.hash) continue
+    const content = checkpointContent(directory, checkpoint, rel, entry)
+    if (content) writes.set(rel, content)
+    else missing.push(rel)
+  }
+  if (missing.length > 0) {
+    throw new Error(`the checkpoint has no copy of: ${missing.join(", ")}`)
+  }
+  const deleted = Object.keys(current).filter((rel) => !target[rel])
+
+  for (const [rel, content] of writes) {
+    const abs = path.join(directory, rel)
+    fs.mkdirSync(path.dirname(abs), { recursive: true })
+    fs.writeFileSync(abs, content)
+  }
+  for (const rel of deleted) fs.rmSync(path.join(directory, rel), { force: true })
+  return { restored: [...writes.keys()].sort(), deleted: deleted.sort() }
+}
+
+/** Files added, modified or deleted between two snapshots, sorted by path */
+function diffSnapshots(
+  before: Snapshot,
+  after: Snapshot
+): Array<{ path: string; status: ChangedFile["status"] }> {
+  const changes: Array<{ path: string; status: ChangedFile["status"] }> = []
+  for (const [rel, entry] of Object.entries(after)) {
+    if (!before[rel]) changes.push({ path: rel, status: "added" })
+    else if (before[rel].hash !== entry.hash) changes.push({ path: rel, status: "modified" })
+  }
+  for (const rel of Object.keys(before)) {
+    if (!after[rel]) changes.push({ path: rel, status: "deleted" })
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/** Changed files the orchestrator has not yet read or diffed this cycle */
+function unreviewedFiles(state: PipelineState): ChangedFile[] {
+  if (!state.changedFiles) return []
+  return state.changedFiles.filter((f) => !state.reviewedFiles.includes(f.path))
+}
+
+/** One line of a change list, with the way the orchestrator should review it */
+function describeChange(f: ChangedFile, state: PipelineState): string {
+  if (state.isGitRepo === false) return `- ${f.path} (${f.status})`
+  return `- ${f.path} (${f.status}${f.tracked ? "" : ", untracked -- use Read"})`
+}
+
+/** What counts as reviewing a file in this project */
+function reviewMethod(state: PipelineState): string {
+  return state.isGitRepo === false ? "pipeline_diff" : "git diff / Read"
+}
+
+function markReviewed(state: PipelineState, paths: string[]): void {
+  for (const p of paths) {
+    if (!state.reviewedFiles.includes(p)) state.reviewedFiles.push(p)
+  }
+}
+
+/**
+ * Whether a project-relative path is inside the dispatch scope. Patterns are
+ * globs relative to the project root; a trailing slash or a plain directory
+ * name covers everything beneath it.
+ */
+function inScope(relPath: string, scope: string[]): boolean {
+  return scope.some((raw) => {
+    const pattern = raw.replace(/\\/g, "/").replace(/^\.\//, "")
+    if (pattern.endsWith("/")) return relPath.startsWith(pattern)
+    return globToRegExp(pattern).test(relPath) || relPath.startsWith(`${pattern}/`)
+  })
+}
+
+/** Changed files the dispatch scope did not allow */
+function outOfScopeFiles(state: PipelineState): ChangedFile[] {
+  if (!state.scope || !state.changedFiles) return []
+  return state.changedFiles.filter((f) => !inScope(f.path, state.scope!))
+}
+
+/** The implementer's reply in a Task result, without OpenCode's metadata block */
+function taskResultText(output: string): string {
+  return output.replace(/<task_metadata>[\s\S]*?<\/task_metadata>/g, "").trim()
+}
+
+/** The child session a Task ran in: its metadata, else the `<task_metadata>` block */
+function taskSessionID(output: { output?: string; metadata?: unknown }): string | null {
+  const fromMetadata = isStringRecord(output.metadata) ? output.metadata.sessionId : undefined
+  if (typeof fromMetadata === "string") return fromMetadata
+  const block = /<task_metadata>([\s\S]*?)<\/task_metadata>/.exec(output.output ?? "")?.[1]
+  return (block && /(?:session_id|task_id):\s*(\S+)/.exec(block)?.[1]) || null
+}
+
+function formatFailure(f: DispatchFailure): string {
+  return `${f.kind} -- ${f.message} (iteration ${f.iteration}, ${new Date(f.at).toISOString()})`
+}
+
+/** Split a shell command into words (handles simple quoting only) */
+function shellWords(command: string): string[] {
+  const words: string[] = []
+  const re = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(command)) !== null) {
+    words.push(match[1] ?? match[2] ?? match[3])
+  }
+  return words
+}
+
+/** Files with staged changes, per git (empty outside a repository) */
+function listStagedFiles(directory: string): Set<string> {
+  try {
+    const out = execSync("git diff --cached --name-only -z", {
+      cwd: directory,
+      stdio: ["ignore", "pipe", "pipe"],
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: 30000,
+    })
+    return new Set(out.toString("utf8").split("\0").filter((f) => f !== ""))
+  } catch {
+    return new Set()
+  }
+}
+
+/**
+ * Which changed files a `git diff ...` command actually shows, or null if
+ * the command does not print the working tree's changes in full:
+ * summary-only flags (--stat, --name-only, --check), the index or another
+ * revision (--cached, `git diff main`), filters, another repository
+ * (--git-dir), and output piped into head/tail or redirected. git's own
+ * options such as --no-pager are skipped, and -C moves where paths resolve. A plain `git diff` compares against the index, so files with
+ * staged changes are shown only by `git diff HEAD`. Without a pathspec every
+ * tracked change is shown; with one, only matching files. Untracked files
+ * never appear in git diff output.
+ */
+function gitDiffCoverage(
+  command: string,
+  changed: ChangedFile[],
+  staged: Set<string>,
+  directory: string
+): string[] | null {
+  // Only the first command of a chain is inspected; the rest of its pipeline
+  // must not cut the output short
+  const [first, ...piped] = command.split(/\s*(?:&&|\|\||;)\s*/)[0].split(/\s*\|\s*/)
+  if (piped.some((stage) => !GIT_DIFF_PAGERS.includes(shellWords(stage)[0]))) return null
+  const words = shellWords(first)
+  if (words[0] !== "git") return null
+  let at = 1
+  let base = directory
+  while (at < words.length && words[at].startsWith("-")) {
+    const option = words[at].split("=")[0]
+    if (option === "--git-dir" || option === "--work-tree") return null
+    const value = GIT_GLOBAL_VALUE_OPTIONS.includes(option) && !words[at].includes("=") ? words[++at] : undefined
+    if (option === "-C" && value !== undefined) base = path.resolve(base, value)
+    at++
+  }
+  if (words[at] !== "diff") return null
+  const fromProject = path.relative(directory, base)
+  if (fromProject === ".." || fromProject.startsWith(`..${path.sep}`) || path.isAbsolute(fromProject)) return null
+  // Redirecting stdout hides the diff; stderr redirections are not arguments
+  if (words.some((w) => /^(1?>|&>)/.test(w))) return null
+  const args = words.slice(at + 1).filter((w) => !/^2>/.test(w))
+  const hasFlag = (a: string, flag: string) => a === flag || a.startsWith(`${flag}=`)
+  if (
+    args.some(
+      (a) =>
+        GIT_DIFF_SUMMARY_FLAGS.some((flag) => hasFlag(a, flag)) ||
+        GIT_DIFF_PARTIAL_FLAGS.some((flag) => hasFlag(a, flag) || (/^-[SG]/.test(flag) && a.startsWith(flag)))
+    )
+  ) {
+    return null
+  }
+
+  const separator = args.indexOf("--")
+  const before = (separator >= 0 ? args.slice(0, separator) : args).filter((a) => !a.startsWith("-"))
+  const changedPaths = new Set(changed.map((f) => f.path))
+  // Before `--`, a bare word is a path only if it names a changed file/dir;
+  // otherwise git reads it as a revision
+  const isPath = (a: string) => {
+    const p = toProjectPath(path.resolve(base, a), directory).replace(/\/$/, "")
+    return (
+      changedPaths.has(p) ||
+      [...changedPaths].some((c) => c.startsWith(`${p}/`)) ||
+      fs.existsSync(path.resolve(base, a))
+    )
+  }
+  const revisions = separator >= 0 ? before : before.filter((a) => !isPath(a))
+  // HEAD against the working tree shows staged and unstaged changes alike;
+  // any other revision or range shows something else
+  if (revisions.length > 1 || (revisions.length === 1 && revisions[0] !== "HEAD")) return null
+  const againstHead = revisions.length === 1
+
+  const pathspecs = (separator >= 0 ? args.slice(separator + 1) : before.filter(isPath)).map((a) =>
+    toProjectPath(path.resolve(base, a), directory).replace(/\/$/, "")
+  )
+
+  return changed
+    .filter((f) => f.tracked && (againstHead || !staged.has(f.path)))
+    .filter(
+      (f) =>
+        pathspecs.length === 0 ||
+        pathspecs.some((p) => p === "." || p === "" || f.path === p || f.path.startsWith(`${p}/`))
+    )
+    .map((f) => f.path)
+}
+
+// ---------------------------------------------------------------------------
+// Diff hygiene -- checks on the change set itself
+// ---------------------------------------------------------------------------
+
+/** New-side line numbers and text of the lines a unified diff adds */
+function addedLines(diff: string): Array<{ line: number; text: string }> {
+  const added: Array<{ line: number; text: string }> = []
+  let line = 0
+  let inHunk = false
+  for (const raw of diff.split("\n")) {
+    const header = raw.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (header) {
+      line = Number(header[1])
+      inHunk = true
+    } else if (!inHunk || raw.startsWith("\\")) {
+      continue
+    } else if (raw.startsWith("+")) {
+      added.push({ line: line++, text: raw.slice(1) })
+    } else if (raw.startsWith(" ")) {
+      line++
+    }
+  }
+  return added
+}
+
+/** What `git diff --check` would say about an added line, if anything */
+function whitespaceError(text: string): string | null {
+  const line = text.replace(/\r$/, "")
+  if (/[ \t]$/.test(line)) return "trailing whitespace"
+  if (/^\t* +\t/.test(line)) return "space before tab in indent"
+  return null
+}
+
+/** Rule-level findings from the added lines of one file */
+function lineIssues(
+  policy: HygienePolicy,
+  lines: Array<{ line: number; text: string }>,
+  checkWhitespace: boolean
+): Array<{ rule: HygieneRule; line: number; message: string }> {
+  const debug = policy.debugPatterns.map((p) => new RegExp(p))
+  const secrets = [
+    ...SECRET_PATTERNS,
+    ...policy.secretPatterns.map((p) => ({ name: `a match for /${p}/`, regex: new RegExp(p) })),
+  ]
+  const issues: Array<{ rule: HygieneRule; line: number; message: string }> = []
+  for (const { line, text } of lines) {
+    if (/^(<{7}|>{7}|\|{7})( |$)/.test(text)) {
+      issues.push({ rule: "conflict-markers", line, message: "leftover conflict marker" })
+    }
+    const secret = secrets.find((s) => s.regex.test(text))
+    if (secret) issues.push({ rule: "secrets", line, message: `looks like ${secret.name}` })
+    if (debug.some((re) => re.test(text))) {
+      issues.push({ rule: "debug-leftovers", line, message: "debug statement" })
+    }
+    const ws = checkWhitespace ? whitespaceError(text) : null
+    if (ws) issues.push({ rule: "whitespace", line, message: ws })
+  }
+  return issues
+}
+
+/**
+ * Group findings into one issue per rule, file and message, dropping rules
+ * that are off. Blocking issues sort first, then by path.
+ */
+function groupHygieneIssues(
+  policy: HygienePolicy,
+  found: Array<{ rule: HygieneRule; path: string; line: number | null; message: string }>
+): HygieneIssue[] {
+  const grouped = new Map<string, HygieneIssue>()
+  for (const f of found) {
+    const level = policy.rules[f.rule]
+    if (level === "off") continue
+    const key = `${f.rule}\0${f.path}\0${f.message}`
+    const issue = grouped.get(key) ?? { rule: f.rule, blocking: level === "block", path: f.path, lines: [], message: f.message }
+    if (f.line !== null && !issue.lines.includes(f.line)) issue.lines.push(f.line)
+    grouped.set(key, issue)
+  }
+  return [...grouped.values()].sort(
+    (a, b) => Number(b.blocking) - Number(a.blocking) || a.path.localeCompare(b.path) || (a.lines[0] ?? 0) - (b.lines[0] ?? 0)
+  )
+}
+
+function formatHygieneIssue(i: HygieneIssue): string {
+  const where =
+    i.lines.length === 0
+      ? i.path
+      : `${i.path}:${i.lines.slice(0, 5).join(",")}${i.lines.length > 5 ? ` (+${i.lines.length - 5} more)` : ""}`
+  return `${i.blocking ? "BLOCK" : "WARN"} ${i.rule}: ${where} -- ${i.message}`
+}
+
+function blockingHygiene(state: PipelineState): HygieneIssue[] {
+  return (state.hygiene ?? []).filter((i) => i.blocking)
+}
+
+function hygieneLabel(state: PipelineState): string {
+  if (state.hygiene === null) return "not run"
+  if (state.hygiene.length === 0) return "clean"
+  const blocking = blockingHygiene(state).length
+  const warnings = state.hygiene.length - blocking
+  return [...(blocking > 0 ? [`${blocking} blocking`] : []), ...(warnings > 0 ? [`${warnings} warning(s)`] : [])].join(", ")
+}
+
+// ---------------------------------------------------------------------------
+// Specs -- the refined spec as a first-class artifact
+// ---------------------------------------------------------------------------
+
+/** Everything wrong with a submitted spec (empty = valid) */
+function validateSpec(spec: Spec, directory: string): string[] {
+  const errors: string[] = []
+  if (!spec.goal.trim()) errors.push("'goal' must not be empty")
+  if (spec.files.length === 0) errors.push("'files' must list at least one file to modify or create")
+  for (const file of spec.files) {
+    if (!path.isAbsolute(file.path)) {
+      errors.push(`files: '${file.path}' is not an absolute path`)
+    } else if (toProjectPath(file.path, directory).startsWith("..")) {
+      errors.push(`files: '${file.path}' is outside the project directory`)
+    }
+    if (!file.change.trim()) errors.push(`files: '${file.path}' has no description of the change`)
+  }
+  if (spec.validation.every((c) => !c.trim())) {
+    errors.push("'validation' must list at least one command the implementer runs to verify the work")
+  }
+
+  if (spec.subtasks.length === 1) {
+    errors.push("'subtasks' must list at least two subtasks, or be omitted for a single dispatch")
+  }
+  if (spec.subtasks.length > 1) {
+    const specFiles = new Set(spec.files.map((f) => f.path))
+    const owner = new Map<string, string>()
+    for (const sub of spec.subtasks) {
+      const where = `subtasks: '${sub.name}'`
+      if (!sub.name.trim()) errors.push("subtasks: every subtask needs a name")
+      if (spec.subtasks.filter((s) => s.name.trim().toLowerCase() === sub.name.trim().toLowerCase()).length > 1) {
+        errors.push(`${where} is not a unique name`)
+      }
+      if (!sub.goal.trim()) errors.push(`${where} has no goal`)
+      if (sub.files.length === 0) errors.push(`${where} lists no files`)
+      for (const file of sub.files) {
+        if (!specFiles.has(file)) errors.push(`${where}: '${file}' is not one of the spec's files`)
+        const other = owner.get(file)
+        if (other && other !== sub.name) {
+          errors.push(`${where}: '${file}' is also assigned to '${other}' -- subtask files must be disjoint`)
+        }
+        owner.set(file, sub.name)
+      }
+    }
+    for (const file of specFiles) {
+      if (!owner.has(file)) errors.push(`files: '${file}' is not assigned to any subtask`)
+    }
+  }
+  return errors
+}
+
+function formatSpec(spec: Spec, runID: string): string {
+  const list = (items: string[]) =>
+    items.length > 0 ? items.map((i) => `- ${i}`).join("\n") : "(none)"
+  return [
+    `# Spec for run ${runID}`,
+    "",
+    "## Goal",
+    "",
+    spec.goal.trim(),
+    "",
+    "## Files to modify/create",
+    "",
+    spec.files.map((f) => `- \`${f.path}\` -- ${f.change.trim()}`).join("\n"),
+    "",
+    "## Code patterns to follow",
+    "",
+    list(spec.patterns),
+    "",
+    "## Edge cases",
+    "",
+    list(spec.edgeCases),
+    "",
+    "## Tests",
+    "",
+    list(spec.tests),
+    "",
+    "## What NOT to change",
+    "",
+    list(spec.nonGoals),
+    "",
+    "## Validation",
+    "",
+    "```",
+    ...spec.validation.filter((c) => c.trim()),
+    "```",
+    "",
+    ...(spec.subtasks.length > 0
+      ? [
+          "## Subtasks (dispatched in parallel)",
+          "",
+          ...spec.subtasks.map(
+            (sub) => `- **${sub.name}** -- ${sub.goal.trim()}\n  Files: ${sub.files.map((f) => `\`${f}\``).join(", ")}`
+          ),
+          "",
+        ]
+      : []),
+  ].join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Review findings
+// ---------------------------------------------------------------------------
+
+const FINDING_SEVERITIES = ["blocking", "minor", "nit"] as const
+const FINDING_CATEGORIES = ["bug", "edge-case", "convention", "security"] as const
+const FINDING_STATUSES = ["open", "fixed", "wontfix"] as const
+
+function formatFinding(f: Finding): string {
+  const location = f.file ? ` ${f.file}${f.line ? `:${f.line}` : ""}` : ""
+  const resolved = f.resolvedIteration !== null ? ` in iteration ${f.resolvedIteration}` : ""
+  return `${f.id} [${f.severity}/${f.category}]${location} -- ${f.description} (${f.status}${resolved})`
+}
+
+/** Record a new open finding for the current iteration */
+function addFinding(
+  state: PipelineState,
+  fields: Pick<Finding, "severity" | "category" | "file" | "line" | "description">
+): Finding {
+  const finding: Finding = {
+    id: `F${state.findings.length + 1}`,
+    ...fields,
+    status: "open",
+    openedIteration: state.iterations,
+    resolvedIteration: null,
+  }
+  state.findings.push(finding)
+  return finding
+}
+
+function openFindings(state: PipelineState): Finding[] {
+  return state.findings.filter((f) => f.status === "open")
+}
+
+function openBlockingFindings(state: PipelineState): Finding[] {
+  return openFindings(state).filter((f) => f.severity === "blocking")
+}
+
+function findingsLabel(state: PipelineState): string {
+  const open = openFindings(state)
+  const blocking = openBlockingFindings(state).length
+  return `${open.length} open${blocking > 0 ? ` (${blocking} blocking)` : ""}, ${state.findings.length - open.length} resolved`
+}
+
+// ---------------------------------------------------------------------------
+// Fan-out dispatch -- subtasks with disjoint scopes
+// ---------------------------------------------------------------------------
+
+/** The first dispatch of a spec with subtasks runs them in parallel */
+function fanOutActive(state: PipelineState): boolean {
+  return state.subtasks.length > 0 && state.phase === "dispatching" && state.iterations === 0
+}
+
+/** The subtask a Task call is for: its description, or a `[subtask: name]` tag in the prompt */
+function matchSubtask(state: PipelineState, args: Record<string, unknown>): Subtask | undefined {
+  const description = typeof args.description === "string" ? args.description.trim().toLowerCase() : ""
+  const prompt = typeof args.prompt === "string" ? args.prompt.toLowerCase() : ""
+  return state.subtasks.find((sub) => {
+    const name = sub.name.trim().toLowerCase()
+    return description === name || prompt.includes(`[subtask: ${name}]`)
+  })
+}
+
+function unfinishedSubtasks(state: PipelineState): Subtask[] {
+  return state.subtasks.filter((sub) => sub.status === "pending" || sub.status === "running")
+}
+
+function formatSubtask(sub: Subtask): string {
+  return `${sub.name} (${sub.status}${sub.failure ? `: ${sub.failure}` : ""})`
+}
+
+// ---------------------------------------------------------------------------
+// Usage accounting -- tokens and cost per phase, dispatch and agent
+// ---------------------------------------------------------------------------
+
+function emptyUsage(): Usage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 }
+}
+
+/** The fields of an assistant message that usage accounting reads */
+interface MessageUsageInfo {
+  id: string
+  sessionID: string
+  mode: string // the agent that produced it
+  cost: number
+  tokens: { input: number; output: number; reasoning: number; cache: { read: number; write: number } }
+}
+
+/** An assistant message's running totals, in our shape */
+function messageUsage(info: MessageUsageInfo): Usage {
+  return {
+    input: info.tokens.input,
+    output: info.tokens.output + info.tokens.reasoning,
+    cacheRead: info.tokens.cache.read,
+    cacheWrite: info.tokens.cache.write,
+    cost: info.cost,
+  }
+}
+
+/**
+ * What a message added since it was last counted -- message.updated
+ * repeats the running totals after every step. Null if nothing new.
+ */
+function usageDelta(total: Usage, seen: Usage | undefined): Usage | null {
+  const base = seen ?? emptyUsage()
+  const delta: Usage = {
+    input: Math.max(0, total.input - base.input),
+    output: Math.max(0, total.output - base.output),
+    cacheRead: Math.max(0, total.cacheRead - base.cacheRead),
+    cacheWrite: Math.max(0, total.cacheWrite - base.cacheWrite),
+    cost: Math.max(0, total.cost - base.cost),
+  }
+  return usageTokens(delta) > 0 || delta.cost > 0 ? delta : null
+}
+
+function addUsage(into: Record<string, Usage>, key: string, delta: Usage): void {
+  const u = (into[key] ??= emptyUsage())
+  u.input += delta.input
+  u.output += delta.output
+  u.cacheRead += delta.cacheRead
+  u.cacheWrite += delta.cacheWrite
+  u.cost += delta.cost
+}
+
+function sumUsage(usages: Usage[]): Usage {
+  const total: Record<string, Usage> = {}
+  for (const u of usages) addUsage(total, "all", u)
+  return total.all ?? emptyUsage()
+}
+
+function usageTokens(u: Usage): number {
+  return u.input + u.output + u.cacheRead + u.cacheWrite
+}
+
+/** Everything the run has spent: the orchestrator plus every subagent */
+function runUsage(state: PipelineState): Usage {
+  return sumUsage([...Object.values(state.phaseUsage), ...Object.values(state.dispatchUsage)])
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`
+  return String(Math.round(n))
+}
+
+function formatUsage(u: Usage): string {
+  return (
+    `${formatTokens(usageTokens(u))} tokens (${formatTokens(u.input)} in, ${formatTokens(u.output)} out, ` +
+    `${formatTokens(u.cacheRead)} cache read, ${formatTokens(u.cacheWrite)} cache write), $${u.cost.toFixed(2)}`
+  )
+}
+
+/** Spend broken down by phase, dispatch and agent, one line each */
+function formatUsageBreakdown(state: PipelineState): string {
+  const list = (entries: Array<[string, Usage]>) =>
+    entries.map(([name, u]) => `${name} ${formatTokens(usageTokens(u))}/$${u.cost.toFixed(2)}`).join(", ") || "(none)"
+  return [
+    `Total: ${formatUsage(runUsage(state))}`,
+    `By phase (orchestrator): ${list(Object.entries(state.phaseUsage))}`,
+    `By dispatch (subagents): ${list(Object.entries(state.dispatchUsage).map(([n, u]) => [`#${n}`, u]))}`,
+    `By agent: ${list(Object.entries(state.agentUsage))}`,
+  ].join("\n")
+}
+
+/** Which budget limit the run is over, or null */
+function budgetExceeded(config: PipelineConfig, state: PipelineState): string | null {
+  const total = runUsage(state)
+  const { maxCost, maxTokens } = config.budget
+  if (maxCost !== null && total.cost > maxCost) {
+    return `spent $${total.cost.toFixed(2)} of a $${maxCost.toFixed(2)} budget`
+  }
+  if (maxTokens !== null && usageTokens(total) > maxTokens) {
+    return `used ${formatTokens(usageTokens(total))} of a ${formatTokens(maxTokens)} token budget`
+  }
+  return null
+}
+
+/** Why no further iteration is allowed -- the iteration cap, or a blocking budget -- or null */
+function iterationLimit(config: PipelineConfig, state: PipelineState): string | null {
+  if (state.iterations >= config.maxIterations) return `Maximum iterations (${config.maxIterations}) reached`
+  const over = config.budget.onExceed === "block" ? budgetExceeded(config, state) : null
+  return over ? `Run budget exceeded (${over})` : null
+}
+
+// ---------------------------------------------------------------------------
+// Self-report -- the implementer's claims, checked against what happened
+// ---------------------------------------------------------------------------
+
+/** Prose like "all tests pass" or "build succeeded" */
+const PASSING_CLAIM = /\b(tests?|checks?|validation|build|typecheck|lint)\b[^.\n]{0,40}?\b(pass(es|ed|ing)?|succeed(s|ed)?|green)\b/i
+
+/**
+ * Parse the implementer's brir-report block:
+ *
+ *   ```brir-report
+ *   files:
+ *   - src/auth.ts: modified
+ *   validation:
+ *   - npm test: pass
+ *   ```
+ */
+function parseSelfReport(
+  text: string,
+  directory: string
+): Pick<SelfReport, "structured" | "files" | "validation" | "claimsPassing"> {
+  const blocks = [...text.matchAll(/```brir-report[^\n]*\n([\s\S]*?)```/g)]
+  const block = blocks.length > 0 ? blocks[blocks.length - 1] : null
+  const prose = block ? text.replace(block[0], "") : text
+  const report = {
+    structured: block !== null,
+    files: [] as SelfReport["files"],
+    validation: [] as SelfReport["validation"],
+    claimsPassing: PASSING_CLAIM.test(prose),
+  }
+  if (!block) return report
+
+  let section: "files" | "validation" | null = null
+  for (const raw of block[1].split("\n")) {
+    const line = raw.trim()
+    const header = /^(files|validation)\s*:\s*$/i.exec(line)
+    if (header) {
+      section = header[1].toLowerCase() as "files" | "validation"
+      continue
+    }
+    const item = /^[-*]\s+(.+)$/.exec(line)?.[1]
+    if (!item || !section) continue
+    // "path: status" / "command: result"; without a known label the whole
+    // item is the path or command
+    const split = /^(.*):\s*([a-z]+)$/i.exec(item)
+    const label = split?.[2].toLowerCase() ?? ""
+    const unquote = (value: string) => value.trim().replace(/^`(.*)`$/, "$1")
+    if (section === "files") {
+      const status = label === "created" || label === "modified" || label === "deleted" ? label : null
+      report.files.push({ path: toProjectPath(unquote(status ? split![1] : item), directory), status })
+    } else {
+      const result = label === "pass" || label === "fail" || label === "skipped" ? label : null
+      report.validation.push({ command: unquote(result ? split![1] : item), result })
+    }
+  }
+  return report
+}
+
+/**
+ * Where the Task results' claims disagree with the change set and the bash
+ * calls the implementer sessions actually made.
+ */
+function checkSelfReports(
+  reports: SelfReport[],
+  changed: ChangedFile[],
+  commands: ChildCommand[]
+): string[] {
+  const found: string[] = []
+  const who = (r: SelfReport) => (r.subtask ? `Subtask '${r.subtask}'` : "The implementer")
+  const squash = (command: string) => command.replace(/\s+/g, " ").trim()
+
+  for (const r of reports.filter((r) => !r.structured)) {
+    found.push(`${who(r)} returned no brir-report block, so its claims could not be checked against the change set`)
+  }
+
+  const claimed = reports.flatMap((r) => r.files.map((f) => ({ ...f, by: r })))
+  for (const claim of claimed) {
+    const actual = changed.find((f) => f.path === claim.path)
+    const claimedAs = claim.status ?? "changed"
+    if (!actual) {
+      found.push(`${who(claim.by)} claims it ${claimedAs} ${claim.path}, but that file did not change`)
+    } else if (claim.status && claim.status !== (actual.status === "added" ? "created" : actual.status)) {
+      found.push(`${who(claim.by)} claims it ${claim.status} ${claim.path}, but the file was ${actual.status}`)
+    }
+  }
+  if (reports.some((r) => r.structured)) {
+    for (const f of changed.filter((f) => !claimed.some((c) => c.path === f.path))) {
+      found.push(`${f.path} was ${f.status} but no report lists it`)
+    }
+  }
+
+  for (const r of reports) {
+    for (const v of r.validation.filter((v) => v.result === "pass")) {
+      const runs = commands.filter((c) => squash(c.command).includes(squash(v.command)))
+      const last = runs[runs.length - 1]
+      if (!last) {
+        found.push(`${who(r)} reports \`${v.command}\` passed, but never ran it`)
+      } else if (last.exitCode !== null && last.exitCode !== 0) {
+        found.push(`${who(r)} reports \`${v.command}\` passed, but its last run exited ${last.exitCode}`)
+      }
+    }
+    if (r.claimsPassing && r.validation.length === 0 && !commands.some((c) => c.sessionID === r.sessionID)) {
+      found.push(`${who(r)} says checks passed, but ran no commands`)
+    }
+  }
+  return found
+}
+
+// ---------------------------------------------------------------------------
+// Run report -- the Markdown artifact written on completion
+// ---------------------------------------------------------------------------
+
+/** A file the whole run changed, with its diffstat */
+interface ReportFile {
+  path: string
+  status: ChangedFile["status"]
+  added: number | null // null = binary, or old content not captured
+  removed: number | null
+}
+
+/** Lines added and removed between two versions of a file; null for binary */
+function lineStat(before: Buffer | null, after: Buffer | null): { added: number; removed: number } | null {
+  if ((before && isBinary(before)) || (after && isBinary(after))) return null
+  const ops = diffLines(splitLines(before?.toString("utf8") ?? ""), splitLines(after?.toString("utf8") ?? ""))
+  return {
+    added: ops.filter((o) => o.op === "+").length,
+    removed: ops.filter((o) => o.op === "-").length,
+  }
+}
+
+/** The Goal section of a formatted spec */
+function specGoal(spec: string | null): string | null {
+  const match = spec?.match(/^## Goal\n\n([\s\S]*?)\n\n## /m)
+  return match ? match[1].trim() : null
+}
+
+/** One-line title: the run's name, else its goal, else the user's request */
+function reportTitle(state: PipelineState, spec: string | null): string {
+  const text = state.name ?? specGoal(spec) ?? state.request ?? runLabel(state)
+  const line = text.split("\n")[0].trim()
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line
+}
+
+/** Lower-case, dash-separated file name part */
+function reportSlug(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 48).replace(/^-+|-+$/g, "")
+  return slug || "run"
+}
+
+function formatFileStat(f: ReportFile): string {
+  const stat = f.added === null ? "binary or not captured" : `+${f.added} -${f.removed}`
+  return `- \`${f.path}\` (${f.status}, ${stat})`
+}
+
+function formatDiffstat(files: ReportFile[] | null): string {
+  if (!files) return "Unknown -- no checkpoint was taken before the first dispatch."
+  if (files.length === 0) return "No files changed."
+  const added = files.reduce((n, f) => n + (f.added ?? 0), 0)
+  const removed = files.reduce((n, f) => n + (f.removed ?? 0), 0)
+  return `${files.length} file(s) changed, +${added} -${removed}\n\n${files.map(formatFileStat).join("\n")}`
+}
+
+/** Each iteration's new findings, and what became of them */
+function formatReviewCycles(state: PipelineState): string {
+  const sections: string[] = []
+  for (let i = 0; i <= state.iterations; i++) {
+    const opened = state.findings.filter((f) => f.openedIteration === i)
+    const fate = (f: Finding) =>
+      f.status === "open" ? "still open" : f.status === "fixed" ? `fixed in iteration ${f.resolvedIteration}` : "won't fix"
+    sections.push(
+      `### Iteration ${i}\n\n` +
+      (opened.length > 0
+        ? opened
+            .map((f) => `- ${f.id} [${f.severity}/${f.category}]${f.file ? ` \`${f.file}${f.line ? `:${f.line}` : ""}\`` : ""} -- ${f.description} (${fate(f)})`)
+            .join("\n")
+        : "No findings recorded.")
+    )
+  }
+  if (state.rollbacks.length > 0) {
+    sections.push(`### Rollbacks\n\n${state.rollbacks.map((r) => `- ${formatRollback(r)}`).join("\n")}`)
+  }
+  return sections.join("\n\n")
+}
+
+function formatRunReport(
+  config: PipelineConfig,
+  state: PipelineState,
+  spec: string | null,
+  files: ReportFile[] | null,
+  durations: Map<Phase, number>,
+  now: number
+): string {
+  const quote = (text: string) => text.split("\n").map((l) => `> ${l}`.trimEnd()).join("\n")
+  const validation =
+    state.validation.length > 0
+      ? formatValidation(state.validation, false)
+      : config.validation.length > 0
+        ? "Not run in the last review cycle."
+        : "No validation checks are configured."
+  return [
+    `# Run report: ${reportTitle(state, spec)}`,
+    "",
+    `- Run: ${runLabel(state)} (\`${state.runID}\`)`,
+    `- Started: ${new Date(state.startTime).toISOString()}`,
+    `- Completed: ${new Date(now).toISOString()} (${formatDuration(now - state.startTime)})`,
+    `- Dispatches: ${state.dispatches}${state.failedDispatches > 0 ? ` (${state.failedDispatches} failed Task call(s))` : ""}`,
+    `- Iterations: ${state.iterations}/${config.maxIterations}`,
+    `- Findings: ${state.findings.length > 0 ? findingsLabel(state) : "none"}`,
+    `- Spend: ${formatUsage(runUsage(state))}`,
+    "",
+    "## Request",
+    "",
+    state.request ? quote(state.request) : "(not recorded)",
+    "",
+    "## Approved spec",
+    "",
+    spec ? spec.trim().replace(/^(#+) /gm, "#$1 ") : "(no spec was submitted)",
+    "",
+    "## Changed files",
+    "",
+    formatDiffstat(files),
+    "",
+    "## Review",
+    "",
+    formatReviewCycles(state),
+    "",
+    "## Validation",
+    "",
+    validation,
+    "",
+    ...(state.hygiene && state.hygiene.length > 0
+      ? ["## Diff hygiene", "", state.hygiene.map((i) => `- ${formatHygieneIssue(i)}`).join("\n"), ""]
+      : []),
+    ...(state.discrepancies.length > 0
+      ? ["## Self-report check", "", state.discrepancies.map((d) => `- ${d}`).join("\n"), ""]
+      : []),
+    "## Caveats",
+    "",
+    state.caveats.length > 0 ? state.caveats.map((c) => `- ${c}`).join("\n") : "None.",
+    "",
+    "## Timing and spend",
+    "",
+    `Time per phase: ${[...durations.entries()].map(([phase, ms]) => `${phase} ${formatDuration(ms)}`).join(", ") || "(no history)"}`,
+    "",
+    formatUsageBreakdown(state),
+    "",
+  ].join("\n")
+}
+
+/** A pull request body: summary, changes, review and testing */
+function formatPrDescription(
+  state: PipelineState,
+  spec: string | null,
+  files: ReportFile[] | null,
+  reportFile: string
+): string {
+  const fixed = state.findings.filter((f) => f.status === "fixed")
+  const unresolved = [...state.caveats, ...openFindings(state).map((f) => `${f.description} (${f.id}, still open)`)]
+  return [
+    `# ${reportTitle(state, spec)}`,
+    "",
+    "## Summary",
+    "",
+    specGoal(spec) ?? state.request ?? "(no goal recorded)",
+    "",
+    "## Changes",
+    "",
+    files && files.length > 0 ? files.map(formatFileStat).join("\n") : formatDiffstat(files),
+    "",
+    "## Review",
+    "",
+    `Implemented in ${state.dispatches} dispatch(es) and reviewed over ${state.iterations + 1} review cycle(s).` +
+      (fixed.length > 0 ? ` Fixed during review:\n\n${fixed.map((f) => `- ${f.description}`).join("\n")}` : ""),
+    "",
+    "## Testing",
+    "",
+    state.validation.length > 0 ? formatValidation(state.validation, false) : "No automated checks were run by the pipeline.",
+    "",
+    ...(unresolved.length > 0 ? ["## Known issues", "", unresolved.map((c) => `- ${c}`).join("\n"), ""] : []),
+    `_Full run report: \`${reportFile}\`_`,
+    "",
+  ].join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Subagent policy -- which tools and bash commands each agent may use
+// ---------------------------------------------------------------------------
+
+/** Why a `/regex/` rule does not compile, or null if the rule is usable */
+function invalidPolicyRule(rule: string): string | null {
+  try {
+    policyRuleRegExp(rule, false)
+    return null
+  } catch (err: any) {
+    return err.message
+  }
+}
+
+/** `/regex/flags` as written, else an anchored glob where `*` matches anything */
+function policyRuleRegExp(rule: string, ignoreCase: boolean): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/s.exec(rule)
+  if (literal) return new RegExp(literal[1], literal[2])
+  const body = rule
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("")
+  return new RegExp(`^${body}$`, ignoreCase ? "si" : "s")
+}
+
+/**
+ * The policy for one agent: allow lists come from the agent's entry, else
+ * from "*"; deny lists from both. An unknown agent gets "*" alone.
+ */
+function resolvePolicy(config: PipelineConfig, agent: string | null): SubagentPolicy {
+  const base = { ...DEFAULT_SUBAGENT_POLICY, ...config.subagents["*"] }
+  const own = agent ? config.subagents[agent] ?? {} : {}
+  return {
+    allowTools: own.allowTools ?? base.allowTools,
+    denyTools: [...base.denyTools, ...(own.denyTools ?? [])],
+    allowBash: own.allowBash ?? base.allowBash,
+    denyBash: [...base.denyBash, ...(own.denyBash ?? [])],
+  }
+}
+
+/**
+ * The simple commands in a bash command line, so `cd x && git push` is
+ * checked as `git push`. Leading `VAR=value` assignments are dropped.
+ * Not a shell parser: quoted separators split too, erring toward checking.
+ */
+function commandSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|\n]|(?<![<>])&(?!>)/)
+    .map((segment) => segment.trim().replace(/^[({\s]+/, "").replace(/^(?:\w+=\S*\s+)+/, ""))
+    .filter((segment) => segment !== "")
+}
+
+/** The rule a tool call breaks, or null if the policy allows it */
+function toolPolicyViolation(policy: SubagentPolicy, toolName: string): string | null {
+  const denied = policy.denyTools.find((rule) => policyRuleRegExp(rule, true).test(toolName))
+  if (denied) return `denyTools '${denied}'`
+  if (policy.allowTools.length > 0 && !policy.allowTools.some((rule) => policyRuleRegExp(rule, true).test(toolName))) {
+    return "not in allowTools"
+  }
+  return null
+}
+
+/** The first command segment the policy refuses, with the rule it breaks */
+function bashPolicyViolation(
+  policy: SubagentPolicy,
+  command: string
+): { segment: string; rule: string } | null {
+  for (const segment of commandSegments(command)) {
+    const denied = policy.denyBash.find((rule) => policyRuleRegExp(rule, false).test(segment))
+    if (denied) return { segment, rule: `denyBash '${denied}'` }
+    if (policy.allowBash.length > 0 && !policy.allowBash.some((rule) => policyRuleRegExp(rule, false).test(segment))) {
+      return { segment, rule: "not in allowBash" }
+    }
+  }
+  return null
+}
+
+function formatPolicyViolation(v: PolicyViolation): string {
+  return `${v.agent}: ${v.tool === v.detail ? `tool '${v.tool}'` : `${v.tool} \`${v.detail}\``} (${v.rule})`
+}
+
+// ---------------------------------------------------------------------------
+// Patch parsing (unified diff / Codex envelope) and application
+// ---------------------------------------------------------------------------
+
+interface PatchHunk {
+  oldStart: number
+  oldCount: number
+  newStart: number
+  newCount: number
+  lines: string[]
+  /**
+   * Codex envelope hunks carry no line numbers. Instead they are located by
+   * searching forward, after first finding each `@@ <line>` anchor in order.
+   * Present (possibly empty) only on Codex hunks.
+   */
+  anchors?: string[]
+  /** Codex `*** End of File`: the hunk must match at the end of the file */
+  endOfFile?: boolean
+}
+
+interface PatchFile {
+  oldPath: string
+  newPath: string
+  hunks: PatchHunk[]
+}
+
+/** Strip git-style a/ or b/ prefix and resolve to absolute path */
+function resolvePatchPath(patchPath: string, baseDir: string): string {
+  let cleaned = patchPath
+  if (cleaned.startsWith("a/") || cleaned.startsWith("b/")) {
+    cleaned = cleaned.slice(2)
+  }
+  if (path.isAbsolute(cleaned)) return cleaned
+  return path.resolve(baseDir, cleaned)
+}
+
+/**
+ * Where a path really points, following symlinks one component at a time
+ * with lstat/readlink -- including a dangling link, which realpath cannot
+ * resolve. Components past the first missing one are kept as they are.
+ */
+function resolveLinks(target: string): string {
+  let resolved = path.parse(target).root
+  const pending = target.slice(resolved.length).split(path.sep).filter(Boolean)
+  let hops = 0
+  while (pending.length > 0) {
+    const next = path.join(resolved, pending.shift()!)
+    let isLink = false
+    try {
+      isLink = fs.lstatSync(next).isSymbolicLink()
+    } catch {
+      // Missing: nothing further down can be a link
+    }
+    if (!isLink) {
+      resolved = next
+      continue
+    }
+    if (++hops > 40) throw new Error("too many levels of symbolic links")
+    const linked = path.resolve(resolved, fs.readlinkSync(next))
+    resolved = path.parse(linked).root
+    pending.unshift(...linked.slice(resolved.length).split(path.sep).filter(Boolean))
+  }
+  return resolved
+}
+
+/**
+ * Resolve a patch path and confine it to the project: anything resolving
+ * outside `baseDir` (via `..`, an absolute path or a symlink, even a
+ * dangling one) or into a `.git` directory is rejected. Throws with the
+ * reason.
+ */
+function sandboxPatchPath(patchPath: string, baseDir: string): string {
+  const resolved = resolvePatchPath(patchPath, baseDir)
+  const root = path.resolve(baseDir)
+
+  const check = (candidate: string, base: string) => {
+    const rel = path.relative(base, candidate)
+    if (rel === "" || rel === ".." || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)) {
+      throw new Error(`${patchPath}: resolves outside the project directory (${root})`)
+    }
+    if (rel.split(path.sep).includes(".git")) {
+      throw new Error(`${patchPath}: writing inside .git/ is not allowed`)
+    }
+  }
+  check(resolved, root)
+  // A link pointing out of the project cannot be used to escape it
+  check(resolveLinks(resolved), fs.realpathSync(root))
+  return resolved
+}
+
+/** Whether a path from a patch header denotes "no file" (creation/deletion) */
+function isDevNull(patchPath: string): boolean {
+  return patchPath === "/dev/null" || patchPath.endsWith("/dev/null")
+}
+
+/** Parse a unified diff or Codex envelope into structured file/hunk data */
+function parsePatch(patchText: string): PatchFile[] {
+  if (/^\s*\*\*\* Begin Patch\s*$/m.test(patchText)) {
+    return parseCodexPatch(patchText)
+  }
+  return parseUnifiedDiff(patchText)
+}
+
+/** Parse a unified diff string into structured file/hunk data */
+function parseUnifiedDiff(patchText: string): PatchFile[] {
+  const files: PatchFile[] = []
+  const lines = patchText.split("\n")
+  let currentFile: PatchFile | null = null
+  let currentHunk: PatchHunk | null = null
+
+  for (const line of lines) {
+    // Inside a hunk that is still short of lines, `--- x` removes the line
+    // `-- x` (an SQL or Lua comment) and `+++ x` adds `++ x`
+    if (currentHunk && /^[-+]{3} /.test(line) && hunkExpectsMore(currentHunk)) {
+      currentHunk.lines.push(line)
+    } else if (line.startsWith("--- ")) {
+      currentFile = {
+        oldPath: line.slice(4).trim(),
+        newPath: "",
+        hunks: [],
+      }
+      currentHunk = null
+    } else if (line.startsWith("+++ ")) {
+      if (currentFile) {
+        currentFile.newPath = line.slice(4).trim()
+        files.push(currentFile)
+      }
+    } else if (line.startsWith("@@ ")) {
+      const match = line.match(
+        /@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+      )
+      if (match && currentFile) {
+        currentHunk = {
+          oldStart: parseInt(match[1], 10),
+          oldCount: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+          newStart: parseInt(match[3], 10),
+          newCount: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+          lines: [],
+        }
+        currentFile.hunks.push(currentHunk)
+      }
+    } else if (currentHunk) {
+      if (
+        line.startsWith("+") ||
+        line.startsWith("-") ||
+        line.startsWith(" ")
+      ) {
+        currentHunk.lines.push(line)
+      } else if (line === "" && hunkExpectsMore(currentHunk)) {
+        // Models often strip the leading space from blank context lines
+        currentHunk.lines.push(" ")
+      } else if (line === "\\ No newline at end of file") {
+        // Ignore -- we normalize line endings anyway
+      }
+    }
+  }
+
+  return files
+}
+
+/**
+ * Parse the Codex `*** Begin Patch` envelope:
+ *
+ *   *** Begin Patch
+ *   *** Add File: path       (followed by `+` lines)
+ *   *** Delete File: path
+ *   *** Update File: path
+ *   *** Move to: new/path    (optional, right after Update File)
+ *   @@ <anchor line>         (optional; repeat to narrow down)
+ *    context / -removed / +added
+ *   *** End of File          (optional; hunk must match at the file end)
+ *   *** End Patch
+ *
+ * Files map onto the unified representation: adds come from /dev/null,
+ * deletes go to /dev/null, and a move is an update whose paths differ.
+ */
+function parseCodexPatch(patchText: string): PatchFile[] {
+  const files: PatchFile[] = []
+  const lines = patchText.split("\n")
   let currentFile: PatchFile | null = null
   let currentHunk: PatchHunk | null = null
+  let inPatch = false
+
+  const newHunk = (file: PatchFile): PatchHunk => {
+    const hunk: PatchHunk = {
+      oldStart: 0,
+      oldCount: 0,
+      newStart: 0,
+      newCount: 0,
+      lines: [],
+      anchors: [],
+    }
+    file.hunks.push(hunk)
+    return hunk
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/\r$/, "")
+    const header = line.trim()
+
+    if (!inPatch) {
+      if (header === "*** Begin Patch") inPatch = true
+      continue
+    }
+    if (header === "*** End Patch") break
+
+    const fileHeader = header.match(/^\*\*\* (Add|Delete|Update) File: (.+)$/)
+    if (fileHeader) {
+      const [, kind, filePath] = fileHeader
+      currentFile = {
+        oldPath: kind === "Add" ? "/dev/null" : filePath.trim(),
+        newPath: kind === "Delete" ? "/dev/null" : filePath.trim(),
+        hunks: [],
+      }
+      currentHunk = kind === "Add" ? newHunk(currentFile) : null
+      files.push(currentFile)
+      continue
+    }
+    if (!currentFile) continue
+
+    const moveTo = header.match(/^\*\*\* Move to: (.+)$/)
+    if (moveTo) {
+      currentFile.newPath = moveTo[1].trim()
+      continue
+    }
+    if (header === "*** End of File") {
+      if (currentHunk) currentHunk.endOfFile = true
+      continue
+    }
+    if (line.startsWith("@@")) {
+      const anchor = line.slice(2).trim()
+      // Consecutive @@ lines stack anchors onto the same (still empty) hunk
+      if (!currentHunk || currentHunk.lines.length > 0) {
+        currentHunk = newHunk(currentFile)
+      }
+      if (anchor) currentHunk.anchors!.push(anchor)
+      continue
+    }
+
+    if (
+      line.startsWith("+") ||
+      line.startsWith("-") ||
+      line.startsWith(" ") ||
+      line === ""
+    ) {
+      if (!currentHunk) currentHunk = newHunk(currentFile)
+      // Blank lines inside a Codex hunk are context with the space stripped
+      currentHunk.lines.push(line === "" ? " " : line)
+    }
+  }
+
+  for (const file of files) {
+    for (const hunk of file.hunks) {
+      // Trailing blank "context" is usually just the patch's final newline
+      while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === " ") {
+        hunk.lines.pop()
+      }
+      const { oldLines, newLines } = splitHunkLines(hunk.lines)
+      hunk.oldCount = oldLines.length
+      hunk.newCount = newLines.length
+    }
+    file.hunks = file.hunks.filter((h) => h.lines.length > 0)
+  }
+
+  return files
+}
+
+/** How far (in lines) a hunk may drift from its stated position */
+const MAX_HUNK_OFFSET = 1000
+
+/** Maximum number of outer context lines a hunk may drop to find a match */
+const MAX_HUNK_FUZZ = 2
+
+/** Collapse runs of whitespace so indentation/trailing-space drift still matches */
+function normalizeWhitespace(line: string): string {
+  return line.trim().replace(/\s+/g, " ")
+}
+
+/** Whether `needle` matches `haystack` at `pos`, exactly or ignoring whitespace */
+function linesMatchAt(
+  haystack: string[],
+  needle: string[],
+  pos: number,
+  ignoreWhitespace: boolean
+): boolean {
+  for (let i = 0; i < needle.length; i++) {
+    const actual = haystack[pos + i]
+    if (actual === undefined) return false
+    if (ignoreWhitespace) {
+      if (normalizeWhitespace(actual) !== normalizeWhitespace(needle[i])) return false
+    } else if (actual !== needle[i]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Find where `needle` occurs in `haystack`, preferring the position closest
+ * to `expected`. Only positions in [minPos, ...] within `maxOffset` of
+ * `expected` are considered. Returns -1 when there is no match.
+ */
+function findNearest(
+  haystack: string[],
+  needle: string[],
+  expected: number,
+  minPos: number,
+  ignoreWhitespace: boolean,
+  maxOffset: number = MAX_HUNK_OFFSET
+): number {
+  const maxPos = haystack.length - needle.length
+  for (let offset = 0; offset <= maxOffset; offset++) {
+    const candidates = offset === 0 ? [expected] : [expected - offset, expected + offset]
+    let inRange = false
+    for (const pos of candidates) {
+      if (pos < minPos || pos > maxPos) continue
+      inRange = true
+      if (linesMatchAt(haystack, needle, pos, ignoreWhitespace)) return pos
+    }
+    if (!inRange && expected - offset < minPos && expected + offset > maxPos) break
+  }
+  return -1
+}
+
+/** Whether a hunk has fewer lines than its @@ header promised */
+function hunkExpectsMore(hunk: PatchHunk): boolean {
+  const { oldLines, newLines } = splitHunkLines(hunk.lines)
+  return oldLines.length < hunk.oldCount || newLines.length < hunk.newCount
+}
+
+/**
+ * Apply parsed hunks to file content, GNU-patch style.
+ *
+ * Every hunk's context and removed lines must be found in the file. The
+ * search starts at the hunk's stated position (adjusted by the line delta
+ * of earlier hunks) and widens outward, first matching exactly, then
+ * ignoring whitespace, then dropping up to MAX_HUNK_FUZZ outer context
+ * lines. Hunks are applied top-to-bottom and may not overlap.
+ *
+ * Codex hunks (no line numbers) are instead searched for forward from the
+ * previous hunk, after their anchors, or from the end for `End of File`.
+ *
+ * Returns the new content plus notes for hunks that needed an offset, fuzz
+ * or whitespace tolerance. Throws if any hunk cannot be placed, listing
+ * every one that failed, so a stale patch never corrupts the file.
+ */
+function applyHunks(
+  content: string,
+  hunks: PatchHunk[]
+): { content: string; notes: string[] } {
+  const fileLines = content.split("\n")
+  const notes: string[] = []
+  // Codex hunks have no line numbers and are already in file order
+  const sorted = hunks.some((h) => h.anchors)
+    ? hunks
+    : [...hunks].sort((a, b) => a.oldStart - b.oldStart)
+
+  let delta = 0 // lines added minus removed by hunks applied so far
+  let minPos = 0 // first line not yet touched by an applied hunk
+  const failed: string[] = []
+
+  sorted.forEach((hunk, i) => {
+    const number = i + 1
+    const { oldLines, newLines } = splitHunkLines(hunk.lines)
+
+    // A zero-length old range means "insert after line oldStart"
+    let stated = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta
+    let maxOffset = MAX_HUNK_OFFSET
+
+    if (hunk.anchors) {
+      let searchFrom = minPos
+      for (const anchor of hunk.anchors) {
+        let found = findNearest(fileLines, [anchor], searchFrom, searchFrom, false, Infinity)
+        if (found === -1) {
+          found = findNearest(fileLines, [anchor], searchFrom, searchFrom, true, Infinity)
+        }
+        if (found === -1) {
+          failed.push(`Hunk #${number} FAILED: anchor ${JSON.stringify(anchor)} not found.`)
+          return
+        }
+        searchFrom = found + 1
+      }
+      // Without line numbers there is no stated position to drift from
+      minPos = searchFrom
+      stated = hunk.endOfFile ? endOfFilePos(fileLines, oldLines.length) : searchFrom
+      maxOffset = Infinity
+    }
+    const expected = Math.max(stated, minPos)
+
+    if (oldLines.length === 0) {
+      const pos = Math.min(expected, fileLines.length)
+      fileLines.splice(pos, 0, ...newLines)
+      delta += newLines.length
+      minPos = pos + newLines.length
+      return
+    }
+
+    for (let fuzz = 0; fuzz <= MAX_HUNK_FUZZ; fuzz++) {
+      const trimmed = trimContext(hunk.lines, fuzz)
+      if (!trimmed) continue
+      for (const ignoreWhitespace of [false, true]) {
+        const pos = findNearest(
+          fileLines,
+          trimmed.oldLines,
+          expected + trimmed.leading,
+          minPos,
+          ignoreWhitespace,
+          maxOffset
+        )
+        if (pos === -1) continue
+
+        // Context lines keep the file's text, so whitespace drift is not
+        // "fixed" to whatever the patch author typed
+        const replacement: string[] = []
+        let oldIdx = pos
+        for (const line of trimmed.lines) {
+          if (line[0] === " ") replacement.push(fileLines[oldIdx++])
+          else if (line[0] === "-") oldIdx++
+          else if (line[0] === "+") replacement.push(line.slice(1))
+        }
+        fileLines.splice(pos, trimmed.oldLines.length, ...replacement)
+        delta += trimmed.newLines.length - trimmed.oldLines.length
+        minPos = pos + trimmed.newLines.length
+
+        const start = pos - trimmed.leading
+        const offset = start - stated
+        const details: string[] = []
+        if (offset !== 0 && !hunk.anchors) {
+          details.push(`offset ${offset} line${Math.abs(offset) === 1 ? "" : "s"}`)
+        }
+        if (fuzz > 0) details.push(`fuzz ${fuzz}`)
+        if (ignoreWhitespace) details.push("ignoring whitespace")
+        if (details.length > 0) {
+          notes.push(`Hunk #${number} succeeded at ${start + 1} (${details.join(", ")})`)
+        }
+        return
+      }
+    }
+
+    const firstOld = oldLines.find((l) => l.trim() !== "") ?? oldLines[0]
+    const where = hunk.anchors ? "" : ` at line ${hunk.oldStart}`
+    const range = hunk.anchors ? "" : ` within ${MAX_HUNK_OFFSET} lines`
+    failed.push(
+      `Hunk #${number} FAILED${where}: could not find its context ` +
+      `(starting with ${JSON.stringify(firstOld)})${range}, ` +
+      `even ignoring whitespace with fuzz ${MAX_HUNK_FUZZ}.`
+    )
+  })
+
+  if (failed.length > 0) {
+    throw new Error(`${failed.join("\n  ")} Re-read the file and regenerate the patch.`)
+  }
+  return { content: fileLines.join("\n"), notes }
+}
+
+/** Position at which `count` lines end the file (ignoring the final newline) */
+function endOfFilePos(fileLines: string[], count: number): number {
+  const end = fileLines[fileLines.length - 1] === "" ? fileLines.length - 1 : fileLines.length
+  return Math.max(end - count, 0)
+}
+
+/** Split hunk lines into the old (context + removed) and new (context + added) sides */
+function splitHunkLines(lines: string[]): { oldLines: string[]; newLines: string[] } {
+  const oldLines: string[] = []
+  const newLines: string[] = []
+  for (const line of lines) {
+    const prefix = line[0]
+    const text = line.slice(1)
+    if (prefix === "-" || prefix === " ") oldLines.push(text)
+    if (prefix === "+" || prefix === " ") newLines.push(text)
+  }
+  return { oldLines, newLines }
+}
+
+/**
+ * Drop up to `fuzz` context lines from each end of a hunk. Returns null when
+ * this fuzz level drops nothing more than the previous one, or would leave
+ * no non-blank line to match against.
+ */
+function trimContext(
+  lines: string[],
+  fuzz: number
+): { lines: string[]; oldLines: string[]; newLines: string[]; leading: number } | null {
+  const leadingContext = lines.findIndex((l) => l[0] !== " ")
+  if (leadingContext === -1) {
+    // Context-only hunk: still verified, but there is nothing to fuzz away
+    return fuzz === 0 ? { lines, ...splitHunkLines(lines), leading: 0 } : null
+  }
+  let trailingContext = 0
+  while (lines[lines.length - 1 - trailingContext][0] === " ") trailingContext++
+
+  const dropStart = Math.min(fuzz, leadingContext)
+  const dropEnd = Math.min(fuzz, trailingContext)
+  if (
+    fuzz > 0 &&
+    dropStart === Math.min(fuzz - 1, leadingContext) &&
+    dropEnd === Math.min(fuzz - 1, trailingContext)
+  ) {
+    return null
+  }
+
+  const kept = lines.slice(dropStart, lines.length - dropEnd)
+  const split = splitHunkLines(kept)
+  // Matching on blank lines alone would place the hunk almost anywhere
+  if (!split.oldLines.some((l) => l.trim() !== "")) return null
+  return { lines: kept, ...split, leading: dropStart }
+}
+
+/** Final content per absolute path; null means the file is deleted */
+type StagedWrites = Map<string, string | null>
+
+/**
+ * Validate a parsed patch and compute every resulting file in memory,
+ * without touching the disk. Later files in the same patch see the staged
+ * results of earlier ones.
+ */
+function stagePatch(
+  files: PatchFile[],
+  baseDir: string
+): { writes: StagedWrites; results: string[]; failures: string[] } {
+  const writes: StagedWrites = new Map()
+  const results: string[] = []
+  const failures: string[] = []
+
+  const read = (filePath: string): string | null => {
+    if (writes.has(filePath)) return writes.get(filePath)!
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null
+  }
+
+  for (const file of files) {
+    try {
+      if (isDevNull(file.oldPath)) {
+        const filePath = sandboxPatchPath(file.newPath, baseDir)
+        if (read(filePath) !== null) {
+          failures.push(`${filePath}: already exists. Patch the existing file instead of creating it.`)
+          continue
+        }
+        let newContent = file.hunks
+          .flatMap((h) =>
+            h.lines
+              .filter((l) => l.startsWith("+"))
+              .map((l) => l.slice(1))
+          )
+          .join("\n")
+        if (file.hunks.some((h) => h.anchors) && newContent !== "") {
+          newContent += "\n" // Codex Add File lines are newline-terminated
+        }
+        writes.set(filePath, newContent)
+        results.push(`Created: ${filePath} (+${countChanges(file.hunks).added} lines)`)
+      } else if (isDevNull(file.newPath)) {
+        const filePath = sandboxPatchPath(file.oldPath, baseDir)
+        if (read(filePath) !== null) {
+          writes.set(filePath, null)
+          results.push(`Deleted: ${filePath}`)
+        } else {
+          results.push(`Skipped (already gone): ${filePath}`)
+        }
+      } else {
+        const filePath = sandboxPatchPath(file.oldPath, baseDir)
+        const targetPath = sandboxPatchPath(file.newPath, baseDir)
+        const original = read(filePath)
+        if (original === null) {
+          failures.push(`${filePath}: file not found. Use --- /dev/null (or *** Add File:) for new file creation.`)
+          continue
+        }
+        if (targetPath !== filePath && read(targetPath) !== null) {
+          failures.push(`${filePath}: cannot move to ${targetPath}, which already exists.`)
+          continue
+        }
+        const patched = applyHunks(original, file.hunks)
+        const { added, removed } = countChanges(file.hunks)
+        if (targetPath !== filePath) {
+          writes.set(filePath, null)
+          results.push(`Moved: ${filePath} -> ${targetPath} (+${added} -${removed})`)
+        } else {
+          results.push(`Modified: ${filePath} (+${added} -${removed})`)
+        }
+        writes.set(targetPath, patched.content)
+        results.push(...patched.notes.map((note) => `  ${note}`))
+      }
+    } catch (err: any) {
+      const label = isDevNull(file.oldPath) ? file.newPath : file.oldPath
+      failures.push(err.message.startsWith(label) ? err.message : `${label}: ${err.message}`)
+    }
+  }
+
+  return { writes, results, failures }
+}
+
+function countChanges(hunks: PatchHunk[]): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line[0] === "+") added++
+      else if (line[0] === "-") removed++
+    }
+  }
+  return { added, removed }
+}
+
+/**
+ * Write staged results to disk as one transaction. Originals are captured
+ * first, byte for byte; if any write fails, every file is restored and any
+ * directories created for new files are removed again before rethrowing.
+ */
+function commitStagedWrites(writes: StagedWrites): void {
+  const originals = new Map<string, Buffer | null>()
+  for (const filePath of writes.keys()) {
+    originals.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath) : null)
+  }
+  const createdDirs: string[] = []
+
+  try {
+    for (const [filePath, content] of writes) {
+      if (content === null) {
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath)
+        continue
+      }
+      let dir = path.dirname(filePath)
+      const missing: string[] = []
+      while (!fs.existsSync(dir)) {
+        missing.unshift(dir)
+        dir = path.dirname(dir)
+      }
+      for (const d of missing) {
+        fs.mkdirSync(d)
+        createdDirs.push(d)
+      }
+      fs.writeFileSync(filePath, content)
+    }
+  } catch (err) {
+    for (const [filePath, original] of originals) {
+      try {
+        if (original === null) {
+          if (fs.existsSync(filePath)) fs.unlinkSync(filePath)
+        } else {
+          fs.writeFileSync(filePath, original)
+        }
+      } catch {
+        // Best effort -- keep restoring the rest
+      }
+    }
+    for (const d of createdDirs.reverse()) {
+      try {
+        fs.rmdirSync(d)
+      } catch {
+        // Not empty or already gone
+      }
+    }
+    throw err
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export const PipelineEnforcer: Plugin = async ({ client, directory }) => {
+  /** Phase graph, guidance and limits -- fails plugin startup if invalid */
+  const config = loadConfig(directory)
+
+  /** Per-session pipeline state. Only populated for orchestrator sessions. */
+  const sessions = new Map<string, PipelineState>()
+
+  /**
+   * Child session -> the orchestrator session whose run spawned it. A cache
+   * over PipelineState.children, which is what survives a restart.
+   */
+  const childParents = new Map<string, string>()
+
+  /** Task call -> the timer that aborts its implementer at config.dispatch.timeoutMs */
+  const dispatchTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  // -------------------------------------------------------------------------
+  // Durable state -- survives OpenCode restarts and plugin reloads
+  // -------------------------------------------------------------------------
+
+  const storeFile = path.join(directory, BRIR_DIR, STATE_FILE)
+
+  /**
+   * The state store, read once at startup and written through on every
+   * change. It is re-read only when another OpenCode process in the same
+   * project has written it since (its mtime changed).
+   */
+  let store = readStore(storeFile)
+  let storeMtime = fileMtime(storeFile)
+
+  /**
+   * Sessions known to have no run (Build, Plan, other agents' subagents),
+   * so their tool calls and events skip the store lookup
+   */
+  const unknownSessions = new Set<string>()
+  const unrelatedSessions = new Set<string>() // ...and no parent run
+
+  function currentStore(): StateStore {
+    const mtime = fileMtime(storeFile)
+    if (mtime !== storeMtime) {
+      store = readStore(storeFile)
+      storeMtime = mtime
+      unknownSessions.clear()
+      unrelatedSessions.clear()
+    }
+    return store
+  }
+
+  function persistStore(): void {
+    writeStore(storeFile, store)
+    storeMtime = fileMtime(storeFile)
+  }
+
+  const liveRuns = Object.values(store.sessions).map((s) => s.runID)
+  if (pruneStore(store, Date.now())) {
+    try {
+      persistStore()
+    } catch {
+      // Pruned again on the next write
+    }
+    // A run dropped before it ended still has its checkpoints
+    const kept = new Set(Object.values(store.sessions).map((s) => s.runID))
+    for (const runID of liveRuns.filter((id) => !kept.has(id))) await releaseCheckpoints(runID)
+  }
+
+  /**
+   * Get pipeline state for a session, lazily reloading it from disk if this
+   * process has not seen the session yet (e.g. after a restart).
+   */
+  function getState(sessionID: string): PipelineState | undefined {
+    const cached = sessions.get(sessionID)
+    if (cached) return cached
+    if (unknownSessions.has(sessionID)) return undefined
+
+    const persisted = currentStore().sessions[sessionID]
+    if (!persisted) {
+      unknownSessions.add(sessionID)
+      return undefined
+    }
+
+    const state = fromPersisted(persisted)
+    if (!(state.phase in config.transitions)) {
+      // Phase was removed from brir.json since this run was persisted
+      state.phase = INITIAL_PHASE
+    }
+    sessions.set(sessionID, state)
+    return state
+  }
+
+  /**
+   * The run a subagent session belongs to, with its link record (memory
+   * first, then every persisted run). Null for sessions no run spawned --
+   * other agents' subagents and primary sessions are not guarded.
+   */
+  function parentRun(
+    childID: string
+  ): { sessionID: string; state: PipelineState; child: ChildSession } | null {
+    const find = (parentID: string) => {
+      const state = getState(parentID)
+      const child = state?.children.find((c) => c.sessionID === childID)
+      return state && child ? { sessionID: parentID, state, child } : null
+    }
+
+    const cached = childParents.get(childID)
+    if (cached) return find(cached)
+    if (unrelatedSessions.has(childID)) return null
+    const candidates = [
+      ...sessions.keys(),
+      ...Object.entries(currentStore().sessions)
+        .filter(([, s]) => s.children?.some((c) => c.sessionID === childID))
+        .map(([id]) => id),
+    ]
+    for (const parentID of candidates) {
+      const found = find(parentID)
+      if (found) {
+        childParents.set(childID, parentID)
+        return found
+      }
+    }
+    unrelatedSessions.add(childID)
+    return null
+  }
+
+  /**
+   * Record a subagent session as part of a run's current dispatch, or fill
+   * in what an earlier link did not know (agent, Task call).
+   */
+  async function linkChild(
+    parentID: string,
+    state: PipelineState,
+    childID: string,
+    agent: string | null,
+    callID: string | null
+  ): Promise<ChildSession> {
+    childParents.set(childID, parentID)
+    unrelatedSessions.delete(childID)
+    const existing = state.children.find((c) => c.sessionID === childID)
+    if (existing) {
+      existing.agent ??= agent
+      if (existing.callID === null && callID !== null) {
+        existing.callID = callID
+        // Refusals recorded before the call was known belong to it too
+        for (const v of state.policyViolations) {
+          if (v.sessionID === childID && v.callID === null) v.callID = callID
+        }
+      }
+      await saveState(parentID, state)
+      return existing
+    }
+
+    const child: ChildSession = {
+      sessionID: childID,
+      agent,
+      dispatch: state.dispatches,
+      iteration: state.iterations,
+      callID,
+      linkedAt: Date.now(),
+    }
+    state.children.push(child)
+    await saveState(parentID, state)
+    await recordHistory({
+      type: "child_session",
+      runID: state.runID,
+      sessionID: childID,
+      iteration: state.iterations,
+      dispatch: child.dispatch,
+      agent: agent ?? undefined,
+    })
+    return child
+  }
+
+  /** Write a session's pipeline state through to disk */
+  async function saveState(
+    sessionID: string,
+    state: PipelineState
+  ): Promise<void> {
+    try {
+      currentStore().sessions[sessionID] = toPersisted(state)
+      persistStore()
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Failed to persist pipeline state: ${err.message}`,
+          extra: { sessionID },
+        },
+      })
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Run history -- append-only journal of every run in this project
+  // -------------------------------------------------------------------------
+
+  const historyFile = path.join(directory, BRIR_DIR, HISTORY_FILE)
+
+  /** Append one event to the history journal (never fails the caller) */
+  async function recordHistory(
+    event: Omit<HistoryEvent, "ts">
+  ): Promise<void> {
+    try {
+      ensureBrirDir(path.dirname(historyFile))
+      fs.appendFileSync(historyFile, JSON.stringify({ ts: Date.now(), ...event }) + "\n")
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Failed to write run history: ${err.message}`,
+          extra: { sessionID: event.sessionID },
+        },
+      })
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Notifications -- structured events for the configured sinks
+  // -------------------------------------------------------------------------
+
+  /** Each sink's pending deliveries, so it receives events in order */
+  const sinkQueues = new Map<EventSink, Promise<unknown>>()
+
+  /** Deliver one event to one sink; throws on failure */
+  async function deliverEvent(sink: EventSink, event: PipelineEvent): Promise<void> {
+    const json = JSON.stringify(event)
+    if (sink.type === "jsonl") {
+      const file = path.resolve(directory, sink.file)
+      fs.mkdirSync(path.dirname(file), { recursive: true })
+      fs.appendFileSync(file, json + "\n")
+    } else if (sink.type === "webhook") {
+      const response = await fetch(sink.url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...sink.headers },
+        body: json,
+        signal: AbortSignal.timeout(sink.timeoutMs),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    } else {
+      // The event is on stdin as JSON; the basics are also in the environment
+      await new Promise<void>((resolve, reject) => {
+        const child = exec(
+          sink.command,
+          {
+            cwd: directory,
+            timeout: sink.timeoutMs,
+            env: {
+              ...process.env,
+              BRIR_EVENT: event.type,
+              BRIR_MESSAGE: event.message,
+              BRIR_PHASE: event.phase,
+              BRIR_RUN_ID: event.runID,
+              BRIR_SESSION_ID: event.sessionID,
+            },
+          },
+          (err) => (err ? reject(err) : resolve())
+        )
+        child.stdin?.on("error", () => {}) // the command need not read stdin
+        child.stdin?.end(json)
+      })
+    }
+  }
+
+  /**
+   * Send an event to every sink that wants it. Delivery runs in the
+   * background, one event at a time per sink: a slow webhook must not hold
+   * up the orchestrator, and a failing sink is only logged.
+   */
+  function emitEvent(
+    sessionID: string,
+    state: PipelineState,
+    type: PipelineEventType,
+    message: string,
+    fields: Partial<Pick<PipelineEvent, "from" | "dispatch" | "reason" | "reportFile">> = {}
+  ): void {
+    const sinks = config.notify.sinks.filter((sink) => !sink.events || sink.events.includes(type))
+    if (sinks.length === 0) return
+    const event: PipelineEvent = {
+      type,
+      at: new Date().toISOString(),
+      sessionID,
+      runID: state.runID,
+      run: runLabel(state),
+      phase: state.phase,
+      iteration: state.iterations,
+      message,
+      ...fields,
+    }
+    for (const sink of sinks) {
+      const delivery = (sinkQueues.get(sink) ?? Promise.resolve())
+        .then(() => deliverEvent(sink, event))
+        .catch((err: any) =>
+          client.app.log({
+            body: {
+              service: "pipeline-enforcer",
+              level: "warn",
+              message: `Event sink ${sink.type} failed for ${type}: ${err.message}`,
+              extra: { sessionID },
+            },
+          })
+        )
+      sinkQueues.set(sink, delivery)
+    }
+  }
+
+  /**
+   * The orchestrator finished its turn mid-run, so the user has to act:
+   * approve a gated transition, or answer it. Toasts unless disabled.
+   */
+  async function awaitingUser(sessionID: string, state: PipelineState): Promise<void> {
+    const gated = (config.transitions[state.phase] ?? []).find((target) => approvalMissing(config, state, target))
+    const what = state.phase === "brainstorming" ? "the design" : state.phase === "refining" ? "the spec" : `${state.phase} -> ${gated}`
+    const message = gated
+      ? `${runLabel(state)}: waiting for you in ${state.phase} -- ${what} needs your approval`
+      : `${runLabel(state)}: the orchestrator stopped in ${state.phase} and is waiting for you`
+    emitEvent(sessionID, state, gated ? "awaiting_approval" : "awaiting_input", message)
+    if (config.notify.toasts) {
+      await client.tui.showToast({ body: { message, variant: gated ? "info" : "warning" } })
+    }
+  }
+
+  /** Discard a run's checkpoints once nothing can roll back to them */
+  async function releaseCheckpoints(runID: string, sessionID?: string): Promise<void> {
+    try {
+      discardCheckpoints(directory, runID)
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Failed to remove the checkpoints of run ${runID}: ${err.message}`,
+          extra: { sessionID },
+        },
+      })
+    }
+  }
+
+  /**
+   * Start a session's next run. The previous one must have been archived
+   * with endRun first; its number carries on from the archive.
+   */
+  async function startRun(sessionID: string, name: string | null = null): Promise<PipelineState> {
+    const state = freshState()
+    state.runNumber = (currentStore().runs[sessionID]?.at(-1)?.runNumber ?? 0) + 1
+    state.name = name
+    sessions.set(sessionID, state)
+    await saveState(sessionID, state)
+    await recordHistory({
+      type: "run_start",
+      runID: state.runID,
+      sessionID,
+      to: state.phase,
+      reason: runLabel(state),
+    })
+    emitEvent(sessionID, state, "run_started", `${runLabel(state)} started in ${state.phase}`)
+    return state
+  }
+
+  /**
+   * Archive a session's current run in its list of runs. Completed runs were
+   * journaled on reaching complete; aborted and abandoned ones end here.
+   */
+  async function endRun(
+    sessionID: string,
+    state: PipelineState,
+    outcome: RunRecord["outcome"],
+    reason: string | null = null
+  ): Promise<void> {
+    const record: RunRecord = {
+      runID: state.runID,
+      runNumber: state.runNumber,
+      name: state.name,
+      outcome,
+      reason,
+      phase: state.phase,
+      iterations: state.iterations,
+      dispatches: state.dispatches,
+      startTime: state.startTime,
+      endTime: Date.now(),
+      cost: runUsage(state).cost,
+      reportFile: state.reportFile,
+    }
+    try {
+      const runs = [...(currentStore().runs[sessionID] ?? []), record]
+      store.runs[sessionID] = runs.slice(-MAX_RUN_RECORDS)
+      delete store.sessions[sessionID]
+      persistStore()
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Failed to archive pipeline run: ${err.message}`,
+          extra: { sessionID },
+        },
+      })
+    }
+    sessions.delete(sessionID)
+    await releaseCheckpoints(state.runID, sessionID)
+
+    if (outcome !== "complete") {
+      await recordHistory({
+        type: "run_end",
+        runID: state.runID,
+        sessionID,
+        outcome,
+        reason: reason ?? undefined,
+        iteration: state.iterations,
+        dispatches: state.dispatches,
+        durationMs: record.endTime - state.startTime,
+        phaseUsage: state.phaseUsage,
+        dispatchUsage: sumUsage(Object.values(state.dispatchUsage)),
+      })
+    }
+  }
+
+  /**
+   * Move a run to a new phase: persist it, log it and journal it.
+   * `note` is appended to the log message; `reason` is kept in history.
+   */
+  async function changePhase(
+    sessionID: string,
+    state: PipelineState,
+    to: Phase,
+    note?: string,
+    reason?: string
+  ): Promise<void> {
+    const from = state.phase
+    state.phase = to
+    state.phaseEnteredAt = Date.now()
+    if (to === "complete") trimMessageUsage(state, TRACKED_MESSAGES_AFTER_RUN)
+    await saveState(sessionID, state)
+
+    await client.app.log({
+      body: {
+        service: "pipeline-enforcer",
+        level: "info",
+        message: `Phase: ${from} -> ${to}${note ? ` (${note})` : ""}`,
+        extra: { sessionID, iteration: state.iterations },
+      },
+    })
+    await recordHistory({
+      type: "transition",
+      runID: state.runID,
+      sessionID,
+      from,
+      to,
+      iteration: state.iterations,
+      reason,
+    })
+    emitEvent(sessionID, state, "phase_changed", `${runLabel(state)}: ${from} -> ${to}${note ? ` (${note})` : ""}`, {
+      from,
+      reason,
+    })
+
+    if (to === "complete") {
+      await recordHistory({
+        type: "run_end",
+        runID: state.runID,
+        sessionID,
+        outcome: "complete",
+        iteration: state.iterations,
+        dispatches: state.dispatches,
+        durationMs: Date.now() - state.startTime,
+        phaseUsage: state.phaseUsage,
+        dispatchUsage: sumUsage(Object.values(state.dispatchUsage)),
+      })
+    }
+  }
+
+  /**
+   * Project-relative files a write, edit or apply_patch call would change.
+   * Unparseable patches yield nothing -- apply_patch reports those itself.
+   */
+  function writeTargets(toolName: string, args: Record<string, unknown>): string[] {
+    const name = toolName.toLowerCase()
+    if (name === "write" || name === "edit") {
+      const filePath = args.filePath ?? args.path
+      return typeof filePath === "string" ? [toProjectPath(filePath, directory)] : []
+    }
+    if (name !== "apply_patch" || typeof args.patch !== "string") return []
+    try {
+      return parsePatch(args.patch).flatMap((f) =>
+        [f.oldPath, f.newPath]
+          .filter((p) => !isDevNull(p))
+          .map((p) => toProjectPath(resolvePatchPath(p, directory), directory))
+      )
+    } catch {
+      return []
+    }
+  }
+
+  /** Journal a blocked tool call, then throw the error shown to the model */
+  async function blockTool(
+    sessionID: string,
+    runID: string | null,
+    toolName: string,
+    message: string,
+    type: "tool_blocked" | "policy_violation" = "tool_blocked"
+  ): Promise<never> {
+    await recordHistory({
+      type,
+      runID,
+      sessionID,
+      tool: toolName,
+      reason: message,
+      dispatch: childParents.has(sessionID) ? parentRun(sessionID)?.child.dispatch : undefined,
+    })
+    throw new Error(message)
+  }
+
+  /**
+   * Refuse a subagent call its policy forbids: keep it on the run for the
+   * review summary, journal it, and explain the rule to the model.
+   */
+  async function blockByPolicy(
+    run: { sessionID: string; state: PipelineState; child: ChildSession },
+    toolName: string,
+    detail: string,
+    rule: string
+  ): Promise<never> {
+    const { sessionID, agent } = run.child
+    const what = toolName === detail ? `Tool '${toolName}'` : `Command \`${detail}\``
+    run.state.policyViolations.push({
+      agent: agent ?? "unknown agent",
+      sessionID,
+      tool: toolName,
+      detail,
+      rule,
+      iteration: run.child.iteration,
+      dispatch: run.child.dispatch,
+      callID: run.child.callID,
+      retried: false,
+      at: Date.now(),
+    })
+    await saveState(run.sessionID, run.state)
+    await client.app.log({
+      body: {
+        service: "pipeline-enforcer",
+        level: "info",
+        message: `Subagent policy blocked ${toolName}: ${rule}`,
+        extra: { sessionID, agent, detail },
+      },
+    })
+    return blockTool(
+      sessionID,
+      run.state.runID,
+      toolName,
+      `BLOCKED by the subagent policy for ${agent ? `'${agent}'` : "this agent"}: ${what} ` +
+      (rule.startsWith("not in")
+        ? `is not on the ${rule.slice("not in ".length)} list. `
+        : `matches the ${rule} rule. `) +
+      (toolName === detail
+        ? "Use Read, Write, Edit, Bash, Glob, Grep, TodoWrite, or apply_patch for your work."
+        : "Do not work around this with another command -- leave that step out and say in your response what still needs to be done."),
+      "policy_violation"
+    )
+  }
+
+  // -------------------------------------------------------------------------
+  // Usage accounting -- what each phase and dispatch costs
+  // -------------------------------------------------------------------------
+
+  /**
+   * Count an assistant message's new tokens and cost: an orchestrator
+   * message against the run's current phase, a subagent message against
+   * the dispatch that spawned it. Warns once when the budget is exceeded.
+   */
+  async function recordUsage(info: MessageUsageInfo): Promise<void> {
+    const own = getState(info.sessionID)
+    const run = own ? { sessionID: info.sessionID, state: own, child: null } : parentRun(info.sessionID)
+    if (!run) return
+
+    const { state } = run
+    const total = messageUsage(info)
+    const delta = usageDelta(total, state.messageUsage[info.id])
+    if (!delta) return
+    state.messageUsage[info.id] = total
+    trimMessageUsage(state, state.phase === "complete" ? TRACKED_MESSAGES_AFTER_RUN : MAX_TRACKED_MESSAGES)
+    if (run.child) addUsage(state.dispatchUsage, String(run.child.dispatch), delta)
+    else addUsage(state.phaseUsage, state.phase, delta)
+    addUsage(state.agentUsage, info.mode || run.child?.agent || "unknown", delta)
+
+    const over = state.budgetExceededAt === null ? budgetExceeded(config, state) : null
+    if (over) state.budgetExceededAt = Date.now()
+    await saveState(run.sessionID, state)
+    if (!over) return
+
+    await client.app.log({
+      body: {
+        service: "pipeline-enforcer",
+        level: "warn",
+        message: `Run budget exceeded: ${over}`,
+        extra: { sessionID: run.sessionID, phase: state.phase },
+      },
+    })
+    await client.tui.showToast({
+      body: {
+        message:
+          `BRIR run over budget: ${over}` +
+          (config.budget.onExceed === "block" ? ". No further iterations." : ""),
+        variant: "warning",
+      },
+    })
+    await recordHistory({
+      type: "budget_exceeded",
+      runID: state.runID,
+      sessionID: run.sessionID,
+      iteration: state.iterations,
+      reason: over,
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Change tracking -- what did this dispatch actually change?
+  // -------------------------------------------------------------------------
+
+  /**
+   * Files a snapshot covers: git's view of the worktree, or a filesystem walk
+   * (honoring ignore patterns) outside git, where every file is untracked.
+   */
+  function listProjectFiles(state: PipelineState): { files: string[]; untracked: Set<string> } {
+    if (state.isGitRepo) return listGitFiles(directory)
+    const files = listFilesystemFiles(directory, config.ignore)
+    return { files, untracked: new Set(files) }
+  }
+
+  /**
+   * Snapshot the worktree on entering dispatching and reset this cycle's
+   * review coverage. Outside git the file contents are also copied to the
+   * object store so pipeline_diff can show them later. Failure is logged
+   * and degrades to the git diff check.
+   */
+  async function snapshotForDispatch(
+    sessionID: string,
+    state: PipelineState
+  ): Promise<void> {
+    const previousFile = state.snapshotFile
+    const checkpointName = `${state.runID}/${state.dispatches}`
+    state.gitDiffCalled = false
+    state.diffViewed = false
+    state.snapshotFile = null
+    state.changedFiles = null
+    state.reviewedFiles = []
+    state.hygiene = null
+    state.childErrors = {}
+    state.childWrites = {}
+    state.selfReports = []
+    state.childCommands = []
+    state.discrepancies = []
+    if (state.iterations === 0) {
+      for (const sub of state.subtasks) {
+        Object.assign(sub, { status: "pending", callID: null, sessionID: null, startedAt: null, failure: null })
+      }
+    }
+    ensureGitRepoDetected(state, directory)
+
+    try {
+      const previous: Snapshot = previousFile
+        ? JSON.parse(fs.readFileSync(path.join(directory, BRIR_DIR, previousFile), "utf8"))
+        : {}
+      const { files, untracked } = listProjectFiles(state)
+      const snapshot = takeSnapshot(directory, files, previous)
+      const relFile = path.join(SNAPSHOT_DIR, `${state.runID}-${state.dispatches}.json`)
+      ensureBrirDir(path.join(directory, BRIR_DIR))
+      fs.mkdirSync(path.join(directory, BRIR_DIR, SNAPSHOT_DIR), { recursive: true })
+
+      // Checkpoint for pipeline_rollback: git keeps tracked content in a
+      // commit; everything else is copied to the object store
+      const gitRef = state.isGitRepo ? createGitCheckpoint(directory, checkpointName) : null
+      const uncommitted = gitRef
+        ? Object.fromEntries(Object.entries(snapshot).filter(([rel]) => untracked.has(rel)))
+        : snapshot
+      storeBlobs(directory, path.join(directory, BRIR_DIR, OBJECTS_DIR), uncommitted)
+
+      fs.writeFileSync(path.join(directory, BRIR_DIR, relFile), JSON.stringify(snapshot))
+      state.snapshotFile = relFile
+      state.checkpoints.push({ iteration: state.iterations, snapshotFile: relFile, gitRef, at: Date.now() })
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Worktree snapshot failed, falling back to git diff check: ${err.message}`,
+          extra: { sessionID },
+        },
+      })
+    }
+  }
+
+  /** Compute the exact change set of the dispatch that just finished */
+  async function computeChanges(
+    sessionID: string,
+    state: PipelineState
+  ): Promise<void> {
+    ensureGitRepoDetected(state, directory)
+    if (!state.snapshotFile) return
+
+    try {
+      const before: Snapshot = JSON.parse(
+        fs.readFileSync(path.join(directory, BRIR_DIR, state.snapshotFile), "utf8")
+      )
+      const { files, untracked } = listProjectFiles(state)
+      const after = takeSnapshot(directory, files, before)
+      const listed = new Set(files)
+      state.changedFiles = diffSnapshots(before, after).map((change) => ({
+        ...change,
+        tracked: listed.has(change.path) && !untracked.has(change.path),
+      }))
+      // In git, a deleted untracked file can be neither read nor diffed
+      state.reviewedFiles = state.isGitRepo
+        ? state.changedFiles.filter((f) => f.status === "deleted" && !f.tracked).map((f) => f.path)
+        : []
+    } catch (err: any) {
+      state.changedFiles = null
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Could not compute change set, falling back to git diff check: ${err.message}`,
+          extra: { sessionID },
+        },
+      })
+    }
+  }
+
+  /** The run's submitted spec, or null if none (or its file was removed) */
+  function readSpec(state: PipelineState): string | null {
+    if (!state.specFile) return null
+    try {
+      return fs.readFileSync(path.join(directory, BRIR_DIR, state.specFile), "utf8")
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Everything the run changed: the worktree against the checkpoint taken
+   * before its first dispatch. Null when there is no checkpoint.
+   */
+  function runChanges(state: PipelineState): ReportFile[] | null {
+    const checkpoint = state.checkpoints[0]
+    if (!checkpoint) return null
+    ensureGitRepoDetected(state, directory)
+    const before: Snapshot = JSON.parse(
+      fs.readFileSync(path.join(directory, BRIR_DIR, checkpoint.snapshotFile), "utf8")
+    )
+    const after = takeSnapshot(directory, listProjectFiles(state).files, before)
+    return diffSnapshots(before, after).map((change) => {
+      const old = change.status === "added" ? null : checkpointContent(directory, checkpoint, change.path, before[change.path])
+      const current = change.status === "deleted" ? null : fs.readFileSync(path.join(directory, change.path))
+      const captured = (change.status === "added" || old !== null) && (current?.length ?? 0) <= MAX_BLOB_SIZE
+      const stat = captured ? lineStat(old, current) : null
+      return { ...change, added: stat?.added ?? null, removed: stat?.removed ?? null }
+    })
+  }
+
+  /**
+   * Write the Markdown report of a completed run (and its PR description,
+   * if configured) under BRIR_DIR/reports. Returns the report's path
+   * relative to BRIR_DIR, or null if it could not be written.
+   */
+  async function writeRunReport(sessionID: string, state: PipelineState): Promise<string | null> {
+    try {
+      const now = Date.now()
+      const spec = readSpec(state)
+      const files = runChanges(state)
+      const events = readHistory(historyFile).filter((e) => e.runID === state.runID)
+      const reportsDir = path.join(directory, BRIR_DIR, REPORTS_DIR)
+      ensureBrirDir(path.join(directory, BRIR_DIR))
+      fs.mkdirSync(reportsDir, { recursive: true })
+
+      const base = `${new Date(now).toISOString().slice(0, 10)}-${reportSlug(reportTitle(state, spec))}`
+      let name = base
+      for (let n = 2; fs.existsSync(path.join(reportsDir, `${name}.md`)); n++) name = `${base}-${n}`
+      const relFile = path.join(REPORTS_DIR, `${name}.md`)
+      fs.writeFileSync(
+        path.join(directory, BRIR_DIR, relFile),
+        formatRunReport(config, state, spec, files, phaseDurations(events, now), now)
+      )
+      if (config.report.prDescription) {
+        fs.writeFileSync(
+          path.join(reportsDir, `${name}.pr.md`),
+          formatPrDescription(state, spec, files, path.join(BRIR_DIR, relFile))
+        )
+      }
+      state.reportFile = relFile
+      await saveState(sessionID, state)
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "info",
+          message: `Run report written to ${path.join(BRIR_DIR, relFile)}`,
+          extra: { sessionID, runID: state.runID },
+        },
+      })
+      return relFile
+    } catch (err: any) {
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Could not write the run report: ${err.message}`,
+          extra: { sessionID, runID: state.runID },
+        },
+      })
+      return null
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Dispatch outcomes -- classify Task results, count failures, retry
+  // -------------------------------------------------------------------------
+
+  function dispatchFailure(
+    state: PipelineState,
+    kind: DispatchFailureKind,
+    message: string
+  ): DispatchFailure {
+    return { kind, message, at: Date.now(), iteration: state.iterations }
+  }
+
+  /**
+   * Abort a Task's implementer sessions once it has run for the dispatch
+   * timeout, so a hung implementer ends as a timeout instead of holding the
+   * run in dispatching.
+   */
+  function startDispatchTimer(sessionID: string, state: PipelineState, callID: string): void {
+    stopDispatchTimer(state, callID)
+    const dispatch = state.dispatches
+    const timer = setTimeout(async () => {
+      dispatchTimers.delete(callID)
+      // The run ended or moved on while the timer was pending
+      if (getState(sessionID) !== state || state.dispatches !== dispatch) return
+      state.timedOutCalls.push(callID)
+      await saveState(sessionID, state)
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Dispatch ran past ${formatDuration(config.dispatch.timeoutMs)} -- aborting its implementer`,
+          extra: { sessionID, callID },
+        },
+      })
+      for (const child of state.children.filter((c) => c.dispatch === dispatch && c.callID === callID)) {
+        await client.session.abort({ path: { id: child.sessionID } }).catch(() => {})
+      }
+    }, config.dispatch.timeoutMs)
+    // A pending timeout must not keep OpenCode from exiting
+    timer.unref?.()
+    dispatchTimers.set(callID, timer)
+  }
+
+  /** The Task returned: cancel its timer and forget that it timed out */
+  function stopDispatchTimer(state: PipelineState, callID: string | null): void {
+    if (!callID) return
+    clearTimeout(dispatchTimers.get(callID))
+    dispatchTimers.delete(callID)
+    state.timedOutCalls = state.timedOutCalls.filter((id) => id !== callID)
+  }
+
+  /** Mark a Task as running and journal it */
+  async function beginDispatch(sessionID: string, state: PipelineState, callID: string): Promise<void> {
+    state.dispatchStartedAt = Date.now()
+    state.dispatchError = null
+    state.dispatchCallID = callID
+    startDispatchTimer(sessionID, state, callID)
+    await saveState(sessionID, state)
+    await recordHistory({
+      type: "dispatch_start",
+      runID: state.runID,
+      sessionID,
+      iteration: state.iterations,
+      dispatch: state.dispatches,
+    })
+  }
+
+  /** Journal the end of a Task and count it if it failed */
+  async function endDispatch(
+    sessionID: string,
+    state: PipelineState,
+    failure: DispatchFailure | null
+  ): Promise<void> {
+    await recordHistory({
+      type: "dispatch_end",
+      runID: state.runID,
+      sessionID,
+      iteration: state.iterations,
+      dispatch: state.dispatches,
+      outcome: failure ? "failed" : "completed",
+      reason: failure ? `${failure.kind}: ${failure.message}` : undefined,
+      durationMs: state.dispatchStartedAt ? Date.now() - state.dispatchStartedAt : undefined,
+    })
+    emitEvent(
+      sessionID,
+      state,
+      failure ? "dispatch_failed" : "dispatch_finished",
+      `${runLabel(state)}: dispatch ${state.dispatches} ${failure ? `failed (${failure.kind}: ${failure.message})` : "finished"}`,
+      { dispatch: state.dispatches, reason: failure ? `${failure.kind}: ${failure.message}` : undefined }
+    )
+    stopDispatchTimer(state, state.dispatchCallID)
+    state.dispatchStartedAt = null
+    state.dispatchError = null
+    state.dispatchCallID = null
+    if (failure) {
+      state.failedDispatches++
+      state.lastFailure = failure
+    }
+    await saveState(sessionID, state)
+  }
+
+  /**
+   * Classify a finished Task from structured signals: the wall-clock
+   * timeout (checked first, as the abort it triggers is also a session
+   * error), an implementer session error, an empty reply, or (computing the
+   * change set) no file changed. Null means the dispatch succeeded.
+   */
+  async function judgeDispatch(
+    sessionID: string,
+    state: PipelineState,
+    output: string
+  ): Promise<DispatchFailure | null> {
+    const elapsed = state.dispatchStartedAt ? Date.now() - state.dispatchStartedAt : 0
+    const timedOut = state.dispatchCallID !== null && state.timedOutCalls.includes(state.dispatchCallID)
+    if (timedOut || elapsed > config.dispatch.timeoutMs) {
+      return dispatchFailure(
+        state,
+        "timeout",
+        `ran ${formatDuration(elapsed)}, limit ${formatDuration(config.dispatch.timeoutMs)}`
+      )
+    }
+    if (state.dispatchError) {
+      return dispatchFailure(state, "session_error", state.dispatchError)
+    }
+    if (!taskResultText(output)) {
+      return dispatchFailure(state, "empty_result", "the implementer returned no output")
+    }
+    await computeChanges(sessionID, state)
+    if (config.dispatch.failOnNoChanges && state.changedFiles?.length === 0) {
+      return dispatchFailure(state, "no_changes", "no file changed since dispatch")
+    }
+    return null
+  }
+
+  /**
+   * Re-run a failed Task: prompt the same agent in a new child session of
+   * the orchestrator, aborting it at the dispatch timeout. Resolves to the
+   * reply text and the session's error, if any.
+   */
+  async function retryDispatch(
+    sessionID: string,
+    agent: string,
+    prompt: string,
+    title: string,
+    callID: string
+  ): Promise<{ text: string; error: string | null }> {
+    const created = await client.session.create({
+      body: { parentID: sessionID, title },
+    })
+    if (!created.data) throw new Error("could not create an implementer session")
+    const childID = created.data.id
+    const state = getState(sessionID)
+    if (state) await linkChild(sessionID, state, childID, agent, callID)
+
+    const timer = setTimeout(() => {
+      client.session.abort({ path: { id: childID } }).catch(() => {})
+    }, config.dispatch.timeoutMs)
+    try {
+      const reply = await client.session.prompt({
+        path: { id: childID },
+        body: { agent, parts: [{ type: "text", text: prompt }] },
+      })
+      if (!reply.data) throw new Error("the implementer session returned no reply")
+      const error = reply.data.info.error
+      return {
+        text: reply.data.parts.map((part) => (part.type === "text" ? part.text : "")).join(""),
+        error: !error
+          ? null
+          : "data" in error && error.data && "message" in error.data
+            ? String(error.data.message)
+            : error.name,
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Retry a transient failure with the same prompt in a fresh implementer
+   * session, with exponential backoff, so the orchestrator only sees the
+   * final result. Returns the last failure, or null once a retry succeeds.
+   */
+  async function retryTransient(
+    sessionID: string,
+    state: PipelineState,
+    callID: string,
+    args: Record<string, unknown>,
+    output: { output: string },
+    failure: DispatchFailure | null,
+    title: string,
+    hooks: {
+      failed: (failure: DispatchFailure) => Promise<void>
+      restart: () => Promise<void>
+      judge: (text: string, error: string | null) => Promise<DispatchFailure | null>
+    }
+  ): Promise<DispatchFailure | null> {
+    let attempt = 0
+    while (
+      failure &&
+      TRANSIENT_FAILURES.includes(failure.kind) &&
+      attempt < config.dispatch.maxRetries &&
+      typeof args.prompt === "string"
+    ) {
+      await hooks.failed(failure)
+      // The failed attempt's refusals are not behind the result the orchestrator gets
+      for (const v of state.policyViolations) {
+        if (v.dispatch === state.dispatches && v.callID === callID) v.retried = true
+      }
+      attempt++
+      const delay = config.dispatch.backoffMs * 2 ** (attempt - 1)
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Dispatch failed (${failure.kind}), retry ${attempt}/${config.dispatch.maxRetries} in ${delay}ms`,
+          extra: { sessionID, reason: failure.message },
+        },
+      })
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      await hooks.restart()
+      try {
+        const reply = await retryDispatch(
+          sessionID,
+          typeof args.subagent_type === "string" ? args.subagent_type : "brir-implementer",
+          args.prompt,
+          `${title} (BRIR retry ${attempt})`,
+          callID
+        )
+        output.output = `${reply.text}\n\n[BRIR: retry ${attempt} after ${failure.kind} -- ${failure.message}]`
+        failure = await hooks.judge(reply.text, reply.error)
+      } catch (err: any) {
+        failure = dispatchFailure(state, "tool_error", `retry failed: ${err.message}`)
+      }
+    }
+    return failure
+  }
+
+  /**
+   * A dispatch succeeded: advance to reviewing, then return what the
+   * orchestrator must know -- the change set, scope violations and the
+   * plugin's own validation run -- to append to the Task result. `callIDs`
+   * are the Task calls whose results it completes.
+   */
+  async function completeDispatch(sessionID: string, state: PipelineState, callIDs: string[]): Promise<string> {
+    await changePhase(sessionID, state, "reviewing", "auto-advance on Task completion")
+
+    let text = ""
+    if (state.changedFiles) {
+      text +=
+        `\n\n[BRIR change set -- computed by the pipeline plugin]\n` +
+        (state.changedFiles.length > 0
+          ? `${state.changedFiles.length} file(s) changed since dispatch:\n` +
+            state.changedFiles.map((f) => describeChange(f, state)).join("\n") +
+            `\nYou must review every one (${reviewMethod(state)}) before leaving review.`
+          : "No files changed since dispatch.")
+
+      const outside = outOfScopeFiles(state)
+      if (outside.length > 0) {
+        await recordHistory({
+          type: "scope_violation",
+          runID: state.runID,
+          sessionID,
+          iteration: state.iterations,
+          reason: outside.map((f) => f.path).join(", "),
+        })
+        text +=
+          `\n\n[BRIR scope -- ${outside.length} file(s) changed OUTSIDE the dispatch scope (${state.scope!.join(", ")})]\n` +
+          outside.map((f) => describeChange(f, state)).join("\n") +
+          "\nThese were likely changed via bash. Decide whether to keep them, and iterate to revert them if not."
+      }
+
+      state.discrepancies = checkSelfReports(state.selfReports, state.changedFiles, state.childCommands)
+      if (state.discrepancies.length > 0) {
+        await client.app.log({
+          body: {
+            service: "pipeline-enforcer",
+            level: "warn",
+            message: `Self-report check: ${state.discrepancies.length} discrepancy(ies)`,
+            extra: { sessionID, discrepancies: state.discrepancies },
+          },
+        })
+        text +=
+          `\n\n[BRIR self-report check -- ${state.discrepancies.length} discrepancy(ies)]\n` +
+          state.discrepancies.map((d) => `- ${d}`).join("\n") +
+          "\nDo not take the implementer's summary at face value: confirm each point in review."
+      }
+    }
+
+    const refused = state.policyViolations.filter(
+      (v) => v.dispatch === state.dispatches && !v.retried && v.callID !== null && callIDs.includes(v.callID)
+    )
+    if (refused.length > 0) {
+      const label = (v: PolicyViolation) => {
+        const sub = state.subtasks.find((s) => s.callID === v.callID)
+        return sub ? `[${sub.name}] ` : ""
+      }
+      text +=
+        `\n\n[BRIR policy -- ${refused.length} subagent call(s) refused during this dispatch]\n` +
+        refused.map((v) => `- ${label(v)}${formatPolicyViolation(v)}`).join("\n") +
+        "\nCheck that the implementer did not skip work or try to achieve the same effect another way."
+    }
+
+    const hygiene = await ensureHygiene(sessionID, state)
+    if (hygiene.length > 0) {
+      text +=
+        `\n\n[BRIR hygiene -- ${hygieneLabel(state)} in the change set]\n` +
+        hygiene.map((i) => `- ${formatHygieneIssue(i)}`).join("\n") +
+        (blockingHygiene(state).length > 0
+          ? "\nBLOCK issues must be fixed (iterate) before you can report."
+          : "\nCheck each warning is intended; raise a finding if not.")
+    }
+
+    // Verify the implementer's work ourselves rather than trusting its
+    // "validation passed" claims
+    if (config.validation.length > 0) {
+      state.validation = await runValidation(config.validation, directory)
+      await saveState(sessionID, state)
+      const failed = failedRequiredChecks(state.validation)
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: failed.length > 0 ? "warn" : "info",
+          message: `Validation: ${validationLabel(state)}`,
+          extra: { sessionID },
+        },
+      })
+      text +=
+        `\n\n[BRIR validation -- run by the pipeline plugin]\n` +
+        formatValidation(state.validation, true) +
+        (failed.length > 0
+          ? "\nRequired checks are failing: you cannot report until they pass (or iterations run out)."
+          : "")
+    }
+    return text
+  }
+
+  // -------------------------------------------------------------------------
+  // Fan-out dispatch -- parallel subtasks, merged when all have finished
+  // -------------------------------------------------------------------------
+
+  /** A subtask's Task is starting: tell its implementer where it may write */
+  async function startSubtask(
+    sessionID: string,
+    state: PipelineState,
+    sub: Subtask,
+    callID: string,
+    args: Record<string, unknown>
+  ): Promise<void> {
+    sub.status = "running"
+    sub.callID = callID
+    sub.sessionID = null
+    sub.startedAt = Date.now()
+    sub.failure = null
+    state.dispatchStartedAt ??= sub.startedAt
+    startDispatchTimer(sessionID, state, callID)
+    if (typeof args.prompt === "string") {
+      args.prompt +=
+        `\n\n[BRIR subtask '${sub.name}' -- ${sub.goal}]\n` +
+        `You may only change: ${sub.files.join(", ")}\n` +
+        `Other subtasks are being implemented in parallel on other files. Do not touch them.`
+    }
+    await saveState(sessionID, state)
+    await recordHistory({
+      type: "dispatch_start",
+      runID: state.runID,
+      sessionID,
+      iteration: state.iterations,
+      dispatch: state.dispatches,
+      reason: `subtask ${sub.name}`,
+    })
+  }
+
+  /** Like judgeDispatch, for one subtask; changes are judged once all finish */
+  function judgeSubtask(
+    state: PipelineState,
+    sub: Subtask,
+    output: string,
+    error: string | null
+  ): DispatchFailure | null {
+    const elapsed = sub.startedAt ? Date.now() - sub.startedAt : 0
+    const timedOut = sub.callID !== null && state.timedOutCalls.includes(sub.callID)
+    if (timedOut || elapsed > config.dispatch.timeoutMs) {
+      return dispatchFailure(
+        state,
+        "timeout",
+        `ran ${formatDuration(elapsed)}, limit ${formatDuration(config.dispatch.timeoutMs)}`
+      )
+    }
+    const sessionError = error ?? (sub.sessionID ? state.childErrors[sub.sessionID] : undefined)
+    if (sessionError) return dispatchFailure(state, "session_error", sessionError)
+    if (!taskResultText(output)) {
+      return dispatchFailure(state, "empty_result", "the implementer returned no output")
+    }
+    return null
+  }
+
+  async function endSubtask(
+    sessionID: string,
+    state: PipelineState,
+    sub: Subtask,
+    failure: DispatchFailure | null
+  ): Promise<void> {
+    stopDispatchTimer(state, sub.callID)
+    await recordHistory({
+      type: "dispatch_end",
+      runID: state.runID,
+      sessionID,
+      iteration: state.iterations,
+      dispatch: state.dispatches,
+      outcome: failure ? "failed" : "completed",
+      reason: `subtask ${sub.name}${failure ? ` -- ${failure.kind}: ${failure.message}` : ""}`,
+      durationMs: sub.startedAt ? Date.now() - sub.startedAt : undefined,
+    })
+    emitEvent(
+      sessionID,
+      state,
+      failure ? "dispatch_failed" : "dispatch_finished",
+      `${runLabel(state)}: subtask '${sub.name}' of dispatch ${state.dispatches} ${failure ? `failed (${failure.kind}: ${failure.message})` : "finished"}`,
+      { dispatch: state.dispatches, reason: `subtask ${sub.name}${failure ? ` -- ${failure.kind}: ${failure.message}` : ""}` }
+    )
+    if (failure) {
+      state.failedDispatches++
+      state.lastFailure = failure
+    }
+  }
+
+  /**
+   * A subtask's Task returned. Record its outcome; the last one to finish
+   * merges the results and moves the pipeline on.
+   */
+  async function finishSubtask(
+    sessionID: string,
+    state: PipelineState,
+    input: { callID: string; args: Record<string, unknown> },
+    output: { output: string; metadata: unknown }
+  ): Promise<void> {
+    const sub = state.subtasks.find((s) => s.callID === input.callID) ?? matchSubtask(state, input.args)
+    if (!sub) return
+    sub.sessionID = taskSessionID(output) ?? sub.sessionID
 
-  for (const line of lines) {
-    if (line.startsWith("--- ")) {
-      currentFile = {
-        oldPath: line.slice(4).trim(),
-        newPath: "",
-        hunks: [],
+    let failure = judgeSubtask(state, sub, output.output ?? "", null)
+    failure = await retryTransient(sessionID, state, input.callID, input.args, output, failure, sub.name, {
+      failed: (f) => endSubtask(sessionID, state, sub, f),
+      restart: async () => {
+        sub.sessionID = null
+        sub.startedAt = Date.now()
+      },
+      judge: async (text, error) => judgeSubtask(state, sub, text, error),
+    })
+    await endSubtask(sessionID, state, sub, failure)
+    if (!failure) {
+      state.selfReports.push({
+        sessionID: sub.sessionID,
+        subtask: sub.name,
+        ...parseSelfReport(taskResultText(output.output ?? ""), directory),
+      })
+    }
+    output.output = `${output.output ?? ""}${await settleSubtask(sessionID, state, sub, failure)}`
+  }
+
+  /**
+   * Record a finished subtask's outcome. The last one to finish merges the
+   * fan-out; the others note what is still running. Returns the text to
+   * append to its Task result.
+   */
+  async function settleSubtask(
+    sessionID: string,
+    state: PipelineState,
+    sub: Subtask,
+    failure: DispatchFailure | null
+  ): Promise<string> {
+    // No await between updating the status and checking the others, so
+    // exactly one of several concurrently finishing subtasks merges
+    sub.status = failure ? "failed" : "completed"
+    sub.failure = failure ? `${failure.kind}: ${failure.message}` : null
+    const waiting = unfinishedSubtasks(state)
+    if (waiting.length > 0) {
+      await saveState(sessionID, state)
+      return (
+        `\n\n[BRIR subtask ${formatSubtask(sub)} -- waiting for: ` +
+        `${waiting.map((w) => w.name).join(", ")}]` +
+        (failure ? `\nYou can re-dispatch '${sub.name}' while the others run.` : "")
+      )
+    }
+    return finishFanOut(sessionID, state)
+  }
+
+  /**
+   * A subtask's Task errored before returning a result (tool.execute.after
+   * never runs for it): fail the subtask so the fan-out can still finish.
+   */
+  async function failSubtask(sessionID: string, state: PipelineState, sub: Subtask, error: string): Promise<void> {
+    const failure = dispatchFailure(state, "tool_error", error)
+    await endSubtask(sessionID, state, sub, failure)
+    const text = await settleSubtask(sessionID, state, sub, failure)
+    await client.app.log({
+      body: {
+        service: "pipeline-enforcer",
+        level: "warn",
+        message: `Subtask '${sub.name}' failed (tool_error: ${error})`,
+        extra: { sessionID, result: text.trim() },
+      },
+    })
+  }
+
+  /**
+   * Every subtask has finished or failed: attribute the change set to
+   * subtasks, detect conflicting edits, and advance to reviewing (unless
+   * nothing succeeded). Conflicts and failed subtasks become blocking
+   * findings. Returns the text to append to the last Task result.
+   */
+  async function finishFanOut(sessionID: string, state: PipelineState): Promise<string> {
+    await computeChanges(sessionID, state)
+    const changed = state.changedFiles ?? []
+
+    const writers = (rel: string) =>
+      state.subtasks.filter((sub) => sub.sessionID && state.childWrites[sub.sessionID]?.includes(rel))
+    const owner = (rel: string) => state.subtasks.find((sub) => sub.files.includes(rel))
+    const attributed = new Map<Subtask, string[]>()
+    const conflicts: Array<{ file: string; message: string }> = []
+    for (const file of changed) {
+      const wrote = writers(file.path)
+      const owned = owner(file.path)
+      if (wrote.length > 1) {
+        conflicts.push({ file: file.path, message: `edited by subtasks ${wrote.map((w) => `'${w.name}'`).join(" and ")}` })
+      } else if (wrote.length === 1 && owned && wrote[0] !== owned) {
+        conflicts.push({ file: file.path, message: `belongs to subtask '${owned.name}' but was edited by '${wrote[0].name}'` })
       }
-      currentHunk = null
-    } else if (line.startsWith("+++ ")) {
-      if (currentFile) {
-        currentFile.newPath = line.slice(4).trim()
-        files.push(currentFile)
+      for (const sub of new Set([...(owned ? [owned] : []), ...wrote])) {
+        attributed.set(sub, [...(attributed.get(sub) ?? []), file.path])
       }
-    } else if (line.startsWith("@@ ")) {
-      const match = line.match(
-        /@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+    }
+
+    if (config.dispatch.failOnNoChanges) {
+      for (const sub of state.subtasks) {
+        if (sub.status !== "completed" || attributed.has(sub)) continue
+        const failure = dispatchFailure(state, "no_changes", "no file in its scope changed")
+        sub.status = "failed"
+        sub.failure = `${failure.kind}: ${failure.message}`
+        state.failedDispatches++
+        state.lastFailure = failure
+      }
+    }
+
+    state.dispatchStartedAt = null
+    state.childErrors = {}
+    const summary =
+      `\n\n[BRIR fan-out -- ${state.subtasks.length} subtask(s) finished]\n` +
+      state.subtasks
+        .map((sub) => `- ${formatSubtask(sub)}: ${attributed.get(sub)?.join(", ") || "no changes"}`)
+        .join("\n")
+
+    if (state.subtasks.every((sub) => sub.status === "failed")) {
+      for (const sub of state.subtasks) {
+        sub.status = "pending"
+        sub.callID = null
+      }
+      state.changedFiles = null
+      await saveState(sessionID, state)
+      return (
+        `${summary}\n\n[BRIR dispatch FAILED -- every subtask failed]\n` +
+        `The pipeline stays in dispatching. Re-dispatch all subtasks with the Task tool, adjusting the prompts.`
       )
-      if (match && currentFile) {
-        currentHunk = {
-          oldStart: parseInt(match[1], 10),
-          oldCount: match[2] !== undefined ? parseInt(match[2], 10) : 1,
-          newStart: parseInt(match[3], 10),
-          newCount: match[4] !== undefined ? parseInt(match[4], 10) : 1,
-          lines: [],
+    }
+
+    for (const conflict of conflicts) {
+      addFinding(state, {
+        severity: "blocking",
+        category: "bug",
+        file: conflict.file,
+        line: null,
+        description: `Conflicting parallel edits: ${conflict.message}`,
+      })
+    }
+    for (const sub of state.subtasks.filter((s) => s.status === "failed")) {
+      addFinding(state, {
+        severity: "blocking",
+        category: "bug",
+        file: null,
+        line: null,
+        description: `Subtask '${sub.name}' failed (${sub.failure}) -- its goal is not implemented: ${sub.goal}`,
+      })
+    }
+    const issues =
+      conflicts.length > 0 || state.subtasks.some((s) => s.status === "failed")
+        ? `\nConflicts and failed subtasks were recorded as blocking findings (see pipeline_status).`
+        : ""
+    const callIDs = state.subtasks.flatMap((s) => (s.callID ? [s.callID] : []))
+    return `${summary}${issues}${await completeDispatch(sessionID, state, callIDs)}`
+  }
+
+  /** Lazily detect git repo status on first custom tool call */
+  function ensureGitRepoDetected(
+    state: PipelineState,
+    directory: string
+  ): void {
+    if (state.isGitRepo === null) {
+      state.isGitRepo = checkGitRepo(directory)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Custom tools
+  // -------------------------------------------------------------------------
+
+  const pipelineAdvance = tool({
+    description:
+      "Advance the BRIR pipeline to the next phase. Valid targets depend on the current phase. Returns guidance for the new phase or an error if the transition is invalid.",
+    args: {
+      target: tool.schema.enum(Object.keys(config.aliases) as [string, ...string[]]),
+      reason: tool.schema
+        .string()
+        .optional()
+        .describe("Why you are making this transition. Required when iterating: summarize the issues to fix."),
+      scope: tool.schema
+        .array(tool.schema.string())
+        .optional()
+        .describe(
+          "When dispatching: globs (relative to the project root) of the files the implementer may change, e.g. ['src/auth/**', 'test/auth.test.ts']. Kept across iterations until replaced; omit to leave the implementer unrestricted."
+        ),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+
+      // Lazy git repo detection
+      ensureGitRepoDetected(state, ctx.directory)
+
+      const targetPhase = config.aliases[args.target]
+      if (!targetPhase) {
+        return `ERROR: Unknown target '${args.target}'. Valid targets: ${Object.keys(config.aliases).join(", ")}`
+      }
+
+      const allowed = config.transitions[state.phase] ?? []
+      if (!allowed.includes(targetPhase)) {
+        const aliasNames = validTargets(config, state)
+        return `ERROR: Cannot transition from '${state.phase}' to '${args.target}'. Valid transitions from '${state.phase}': ${aliasNames.length > 0 ? aliasNames.join(", ") : "(none -- transitions are automatic)"}`
+      }
+
+      if (args.scope && targetPhase !== "dispatching") {
+        return "ERROR: `scope` can only be set when advancing to dispatching."
+      }
+      if (args.scope?.length === 0) {
+        return "ERROR: `scope` must list at least one path or glob. Omit it to leave the implementer unrestricted."
+      }
+
+      // --- Prerequisite checks ---
+
+      // dispatching needs the spec the implementer will work from
+      if (targetPhase === "dispatching" && !readSpec(state)) {
+        return "ERROR: No spec has been submitted for this run. Call pipeline_submit_spec with the refined spec before dispatching."
+      }
+
+      // human-gated transitions need a user message the model cannot write
+      const unapproved = approvalMissing(config, state, targetPhase)
+      if (unapproved) {
+        await client.app.log({
+          body: {
+            service: "pipeline-enforcer",
+            level: "warn",
+            message: `Refused unapproved transition ${state.phase} -> ${targetPhase}: ${unapproved}`,
+            extra: { sessionID: ctx.sessionID },
+          },
+        })
+        return (
+          `ERROR: ${state.phase} -> ${targetPhase} needs the user's approval, but ${unapproved}. ` +
+          `Present the ${state.phase === "brainstorming" ? "design" : "spec"} to the user and end your turn to wait for their reply` +
+          (config.approval.keyword ? ` -- approval must contain '${config.approval.keyword}'` : "") +
+          `. Do not approve it yourself.`
+        )
+      }
+
+      // iterate: any return to dispatching after the first dispatch, which
+      // must be under max iterations
+      if (targetPhase === "dispatching" && state.dispatches > 0) {
+        const limit = iterationLimit(config, state)
+        if (limit) {
+          return `ERROR: ${limit}. You must proceed to 'report' instead. Note any remaining issues as caveats.`
         }
-        currentFile.hunks.push(currentHunk)
+        // something concrete must be wrong: a blocking finding or a failing
+        // required check
+        const blocking = openBlockingFindings(state)
+        const failing = failedRequiredChecks(state.validation)
+        const unclean = blockingHygiene(state)
+        if (blocking.length === 0 && failing.length === 0 && unclean.length === 0) {
+          return "ERROR: Iterating requires at least one open blocking finding. Record the issues the implementer must fix with pipeline_review first."
+        }
+        const reason =
+          args.reason?.trim() ||
+          [
+            ...(blocking.length > 0 ? [`open blocking finding(s) ${blocking.map((f) => f.id).join(", ")}`] : []),
+            ...(failing.length > 0 ? [`failing check(s) ${failing.map((r) => r.name).join(", ")}`] : []),
+            ...(unclean.length > 0 ? [`hygiene issue(s) in ${[...new Set(unclean.map((i) => i.path))].join(", ")}`] : []),
+          ].join("; ")
+        // blocking hygiene issues reach the implementer as findings, and
+        // like any finding must be verified fixed before report
+        for (const issue of unclean) {
+          const description =
+            `Diff hygiene ${issue.rule}: ${issue.message}` +
+            (issue.lines.length > 1 ? ` (lines ${issue.lines.join(", ")})` : "")
+          if (openFindings(state).some((f) => f.file === issue.path && f.description === description)) continue
+          addFinding(state, {
+            severity: "blocking",
+            category: issue.rule === "secrets" ? "security" : "convention",
+            file: issue.path,
+            line: issue.lines[0] ?? null,
+            description,
+          })
+        }
+        state.validation = []
+        state.iterations++
+        state.dispatches++
+        if (args.scope) state.scope = args.scope
+        await snapshotForDispatch(ctx.sessionID, state)
+        await changePhase(
+          ctx.sessionID,
+          state,
+          "dispatching",
+          `iterate #${state.iterations}`,
+          reason
+        )
+
+        return `Advanced to DISPATCHING (iteration ${state.iterations}/${config.maxIterations}). ${config.guidance.dispatching}`
       }
-    } else if (currentHunk) {
-      if (
-        line.startsWith("+") ||
-        line.startsWith("-") ||
-        line.startsWith(" ")
-      ) {
-        currentHunk.lines.push(line)
-      } else if (line === "\\ No newline at end of file") {
-        // Ignore -- we normalize line endings anyway
+
+      // leaving review (report, or a custom phase after it): every changed
+      // file must have been read or diffed -- outside git, pipeline_diff must
+      // have been viewed. Without a change set, fall back to requiring a git
+      // diff (only enforced in git repos)
+      if (state.phase === "reviewing" && state.changedFiles) {
+        const pending = unreviewedFiles(state)
+        if (state.isGitRepo === false && (pending.length > 0 || !state.diffViewed)) {
+          return state.diffViewed
+            ? `ERROR: You have not reviewed ${pending.length} changed file(s), so you cannot advance to ${args.target}. ` +
+                `Call pipeline_diff with these paths (or Read them if their diff is unavailable):\n` +
+                pending.map((f) => describeChange(f, state)).join("\n")
+            : `ERROR: You have not viewed the diff of this dispatch, so you cannot advance to ${args.target}. ` +
+                `Call pipeline_diff and review every changed file.`
+        }
+        if (pending.length > 0) {
+          return (
+            `ERROR: You have not reviewed ${pending.length} changed file(s), so you cannot advance to ${args.target}. ` +
+            `Run \`git diff\` for tracked files (a full diff -- --stat/--name-only do not count) and Read new untracked files:\n` +
+            pending.map((f) => describeChange(f, state)).join("\n")
+          )
+        }
+      } else if (state.phase === "reviewing") {
+        if (!state.gitDiffCalled && state.isGitRepo !== false) {
+          return `ERROR: You must run \`git diff\` before advancing to ${args.target}. This ensures you have reviewed all changes.`
+        }
+      }
+
+      // leaving review: required validation checks must pass, unless
+      // iterations are exhausted -- then failures become mandatory caveats
+      let caveatNote = ""
+      const limit = iterationLimit(config, state)
+      if (state.phase === "reviewing" && config.validation.length > 0) {
+        if (state.validation.length === 0) {
+          // Results lost (e.g. restart) or never run -- run them now
+          state.validation = await runValidation(config.validation, ctx.directory)
+          await saveState(ctx.sessionID, state)
+        }
+        const failed = failedRequiredChecks(state.validation)
+        if (failed.length > 0) {
+          if (!limit) {
+            return (
+              `ERROR: Required validation failed, so you cannot advance to ${args.target}. ` +
+              `Call pipeline_advance('iterate') with the failures below as the reason.\n\n` +
+              formatValidation(failed, true)
+            )
+          }
+          const caveats = failed.map(
+            (r) => `Validation '${r.name}' failed (\`${r.command}\`, ${r.exitCode === null ? "no exit code" : `exit ${r.exitCode}`})`
+          )
+          state.caveats.push(...caveats.filter((c) => !state.caveats.includes(c)))
+          caveatNote = ` ${limit} with failing validation: ${caveats.join("; ")}. These are now mandatory caveats for the report.`
+        }
+      }
+
+      // leaving review: blocking hygiene rules are prerequisites like
+      // required checks -- caveats once iterations run out
+      if (state.phase === "reviewing" && state.changedFiles) {
+        await ensureHygiene(ctx.sessionID, state)
+        const unclean = blockingHygiene(state)
+        if (unclean.length > 0) {
+          if (!limit) {
+            return (
+              `ERROR: Diff hygiene checks failed, so you cannot advance to ${args.target}. ` +
+              `Call pipeline_advance('iterate') to have these fixed:\n` +
+              unclean.map((i) => `- ${formatHygieneIssue(i)}`).join("\n")
+            )
+          }
+          const caveats = unclean.map((i) => `Hygiene ${formatHygieneIssue(i)}`)
+          state.caveats.push(...caveats.filter((c) => !state.caveats.includes(c)))
+          caveatNote += ` ${limit} with ${caveats.length} hygiene issue(s); they are now mandatory caveats for the report.`
+        }
+      }
+
+      // leaving review: open blocking findings must be fixed (iterate) or
+      // resolved; at the iteration cap every open finding becomes a caveat
+      if (state.phase === "reviewing" && openFindings(state).length > 0) {
+        if (!limit) {
+          const blocking = openBlockingFindings(state)
+          if (blocking.length > 0) {
+            return (
+              `ERROR: ${blocking.length} blocking finding(s) are still open, so you cannot advance to ${args.target}. ` +
+              `Call pipeline_advance('iterate') to have them fixed, or mark them fixed/wontfix with pipeline_review.\n` +
+              blocking.map((f) => `- ${formatFinding(f)}`).join("\n")
+            )
+          }
+        } else {
+          const caveats = openFindings(state).map((f) => `Unresolved finding ${formatFinding(f)}`)
+          state.caveats.push(...caveats.filter((c) => !state.caveats.includes(c)))
+          caveatNote += ` ${limit} with ${caveats.length} open finding(s); they are now mandatory caveats for the report.`
+        }
+      }
+
+      // --- Execute transition ---
+      if (targetPhase === "dispatching") {
+        state.dispatches++
+        if (args.scope) state.scope = args.scope
+        await snapshotForDispatch(ctx.sessionID, state)
+      }
+      await changePhase(ctx.sessionID, state, targetPhase, undefined, args.reason)
+
+      let reportNote = ""
+      if (targetPhase === "complete") {
+        const report = config.report.enabled ? await writeRunReport(ctx.sessionID, state) : null
+        const elapsed = Math.round((Date.now() - state.startTime) / 1000)
+        const usage = runUsage(state)
+        const summary =
+          `${state.dispatches} dispatch(es), ${state.iterations} review cycle(s), ${elapsed}s, ` +
+          `${formatTokens(usageTokens(usage))} tokens, $${usage.cost.toFixed(2)}`
+        await client.tui.showToast({
+          body: {
+            message: `Pipeline complete: ${summary}${report ? `. Report: ${path.join(BRIR_DIR, report)}` : ""}`,
+            variant: "success",
+          },
+        })
+        emitEvent(ctx.sessionID, state, "run_complete", `${runLabel(state)} complete: ${summary}`, {
+          reportFile: report ? path.join(BRIR_DIR, report) : undefined,
+        })
+        if (report) {
+          reportNote =
+            ` Run report written to ${path.join(BRIR_DIR, report)}` +
+            (config.report.prDescription ? ` (PR description: ${path.join(BRIR_DIR, report.replace(/\.md$/, ".pr.md"))})` : "") +
+            ". Tell the user where to find it."
+        }
+        // The report was the last use of the run's checkpoints
+        await releaseCheckpoints(state.runID, ctx.sessionID)
+        state.checkpoints = []
+        state.snapshotFile = null
+        await saveState(ctx.sessionID, state)
+      }
+
+      return `Advanced to ${targetPhase.toUpperCase()}.${caveatNote}${reportNote} ${getPhaseGuidance(config, targetPhase, state)}`
+    },
+  })
+
+  const pipelineStatus = tool({
+    description:
+      "Check the current pipeline phase, prerequisites, and valid transitions. Use this to understand where you are in the BRIR pipeline.",
+    args: {},
+    async execute(_args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+
+      ensureGitRepoDetected(state, ctx.directory)
+
+      const details: string[] = []
+      for (const target of config.transitions[state.phase] ?? []) {
+        if (!config.approval.gates.includes(`${state.phase}->${target}`)) continue
+        const missing = approvalMissing(config, state, target)
+        details.push(`User approval for ${target}: ${missing ? `missing -- ${missing}` : "given"}`)
+      }
+      if (state.changedFiles) {
+        const pending = unreviewedFiles(state)
+        details.push(
+          `Changed files this cycle (${state.changedFiles.length}):\n` +
+          (state.changedFiles.length > 0
+            ? state.changedFiles
+                .map((f) => `${describeChange(f, state)}${pending.includes(f) ? " -- UNREVIEWED" : ""}`)
+                .join("\n")
+            : "(none)")
+        )
+      }
+      if (state.lastFailure) {
+        details.push(`Last dispatch failure: ${formatFailure(state.lastFailure)}`)
+      }
+      if (state.subtasks.length > 0) {
+        details.push(
+          `Subtasks${fanOutActive(state) ? " (fan-out in progress)" : ""}:\n` +
+          state.subtasks.map((sub) => `- ${formatSubtask(sub)}: ${sub.files.join(", ")}`).join("\n")
+        )
+      }
+      if (state.policyViolations.length > 0) {
+        details.push(
+          `Subagent calls refused by policy:\n` +
+          state.policyViolations.map((v) => `- dispatch ${v.dispatch}: ${formatPolicyViolation(v)}${v.retried ? " (attempt retried)" : ""}`).join("\n")
+        )
+      }
+      if (state.children.length > 0) {
+        details.push(
+          `Subagent sessions:\n` +
+          state.children
+            .map((c) => `- ${c.sessionID} (${c.agent ?? "unknown agent"}, dispatch ${c.dispatch}, iteration ${c.iteration})`)
+            .join("\n")
+        )
+      }
+      if (state.checkpoints.length > 0) {
+        details.push(`Checkpoints (pipeline_rollback): iteration ${[...new Set(state.checkpoints.map((c) => c.iteration))].join(", ")}`)
+      }
+      if (state.rollbacks.length > 0) {
+        details.push(`Rollbacks:\n${state.rollbacks.map((r) => `- ${formatRollback(r)}`).join("\n")}`)
+      }
+      if (state.scope) {
+        details.push(`Dispatch scope: ${state.scope.join(", ")}`)
+        const outside = outOfScopeFiles(state)
+        if (outside.length > 0) {
+          details.push(`Changed OUTSIDE the scope:\n${outside.map((f) => describeChange(f, state)).join("\n")}`)
+        }
+      }
+      if (state.validation.length > 0) {
+        details.push(`Validation results:\n${formatValidation(state.validation, false)}`)
+      }
+      if (state.hygiene && state.hygiene.length > 0) {
+        details.push(`Diff hygiene (${hygieneLabel(state)}):\n${state.hygiene.map((i) => `- ${formatHygieneIssue(i)}`).join("\n")}`)
+      }
+      if (state.discrepancies.length > 0) {
+        details.push(`Self-report discrepancies:\n${state.discrepancies.map((d) => `- ${d}`).join("\n")}`)
+      }
+      if (state.findings.length > 0) {
+        details.push(`Review findings (${findingsLabel(state)}):\n${state.findings.map((f) => `- ${formatFinding(f)}`).join("\n")}`)
+      }
+      if (state.caveats.length > 0) {
+        details.push(`Mandatory caveats:\n${state.caveats.map((c) => `- ${c}`).join("\n")}`)
+      }
+      if (state.reportFile) {
+        details.push(`Run report: ${path.join(BRIR_DIR, state.reportFile)}`)
+      }
+      const earlier = currentStore().runs[ctx.sessionID] ?? []
+      if (earlier.length > 0) {
+        details.push(`Earlier runs in this session:\n${earlier.map((r) => `- ${formatRunRecord(r)}`).join("\n")}`)
+      }
+      const over = budgetExceeded(config, state)
+      details.push(
+        `Usage this run:\n${formatUsageBreakdown(state)}` +
+        (over
+          ? `\nOVER BUDGET: ${over}${config.budget.onExceed === "block" ? " -- no further iterations; report with the open issues as caveats." : ""}`
+          : "")
+      )
+
+      return (
+        `${formatStatus(config, state)}\n\n` +
+        details.map((d) => `${d}\n\n`).join("") +
+        `Current phase guidance: ${getPhaseGuidance(config, state.phase, state)}`
+      )
+    },
+  })
+
+  const pipelineSubmitSpec = tool({
+    description:
+      "Submit the refined implementation spec for this run. Required before dispatching. The spec is validated, saved to .opencode/brir/specs/<run>.md and kept across iterations and context compaction. Its files become the implementer's default write scope. Submitting again replaces it.",
+    args: {
+      goal: tool.schema.string().describe("What the implementation must achieve"),
+      files: tool.schema
+        .array(
+          tool.schema.object({
+            path: tool.schema.string().describe("Absolute path of a file to modify or create"),
+            change: tool.schema.string().describe("What to change in this file"),
+          })
+        )
+        .describe("Every file to modify or create"),
+      patterns: tool.schema.array(tool.schema.string()).optional().describe("Code patterns and conventions to follow, with references"),
+      edgeCases: tool.schema.array(tool.schema.string()).optional().describe("Expected behavior for edge cases and errors"),
+      tests: tool.schema.array(tool.schema.string()).optional().describe("Tests to write or update"),
+      nonGoals: tool.schema.array(tool.schema.string()).optional().describe("What NOT to change"),
+      validation: tool.schema.array(tool.schema.string()).describe("Commands the implementer runs to verify the work"),
+      subtasks: tool.schema
+        .array(
+          tool.schema.object({
+            name: tool.schema.string().describe("Short unique name; pass it as the Task description"),
+            goal: tool.schema.string().describe("What this subtask achieves"),
+            files: tool.schema.array(tool.schema.string()).describe("Absolute paths, from `files`, only this subtask may change"),
+          })
+        )
+        .optional()
+        .describe("Split the work into independent subtasks with disjoint files, dispatched in parallel (one Task each)"),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+      if (state.phase === "dispatching" || state.phase === "complete") {
+        return `ERROR: A spec cannot be submitted during '${state.phase}'.`
+      }
+
+      const spec: Spec = {
+        goal: args.goal,
+        files: args.files,
+        patterns: args.patterns ?? [],
+        edgeCases: args.edgeCases ?? [],
+        tests: args.tests ?? [],
+        nonGoals: args.nonGoals ?? [],
+        validation: args.validation,
+        subtasks: args.subtasks ?? [],
+      }
+      const errors = validateSpec(spec, directory)
+      if (errors.length > 0) {
+        return `ERROR: Invalid spec:\n${errors.map((e) => `- ${e}`).join("\n")}`
+      }
+
+      const relFile = path.join(SPECS_DIR, `${state.runID}.md`)
+      const markdown = formatSpec(spec, state.runID)
+      ensureBrirDir(path.join(directory, BRIR_DIR))
+      fs.mkdirSync(path.join(directory, BRIR_DIR, SPECS_DIR), { recursive: true })
+      fs.writeFileSync(path.join(directory, BRIR_DIR, relFile), markdown)
+      state.specFile = relFile
+      state.specShownAt = Date.now()
+      state.scope = spec.files.map((f) => toProjectPath(f.path, directory))
+      state.subtasks = spec.subtasks.map((sub) => ({
+        name: sub.name.trim(),
+        goal: sub.goal.trim(),
+        files: sub.files.map((f) => toProjectPath(f, directory)),
+        status: "pending",
+        callID: null,
+        sessionID: null,
+        startedAt: null,
+        failure: null,
+      }))
+      await saveState(ctx.sessionID, state)
+
+      const dispatchNote =
+        state.subtasks.length > 0
+          ? `On dispatch, start one Task per subtask in the same message (they run in parallel), ` +
+            `each with the subtask name as its description and the spec in its prompt.`
+          : `Include it in full in the Task prompt.`
+      return (
+        `Spec saved to ${path.join(BRIR_DIR, relFile)}. Show it to the user for approval before dispatching` +
+        (approvalMissing(config, state, "dispatching")
+          ? ` -- dispatching is refused until the user has replied.`
+          : ".") + " " +
+        `${dispatchNote}\n\n${markdown}`
+      )
+    },
+  })
+
+  const pipelineReview = tool({
+    description:
+      "Record review findings during the reviewing phase, or update the status of earlier ones by id. Findings carry across iterations: open ones are sent to the implementer on the next dispatch, iterating requires at least one open blocking finding, and findings still open when iterations run out become report caveats.",
+    args: {
+      findings: tool.schema
+        .array(
+          tool.schema.object({
+            id: tool.schema.string().optional().describe("Id of an existing finding to update (e.g. F2); omit to record a new one"),
+            severity: tool.schema.enum(FINDING_SEVERITIES).optional().describe("blocking = must be fixed before reporting"),
+            category: tool.schema.enum(FINDING_CATEGORIES).optional(),
+            file: tool.schema.string().optional().describe("File the finding is about"),
+            line: tool.schema.number().int().positive().optional(),
+            description: tool.schema.string().optional().describe("What is wrong and what the fix should be"),
+            status: tool.schema.enum(FINDING_STATUSES).optional().describe("Default 'open' for new findings"),
+          })
+        )
+        .describe("New findings, and status updates for existing ones"),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+      if (state.phase !== "reviewing") {
+        return `ERROR: Findings can only be recorded while reviewing. Current phase: '${state.phase}'.`
+      }
+
+      // Validate everything before changing anything
+      const errors: string[] = []
+      args.findings.forEach((input, i) => {
+        const label = input.id ?? `findings[${i}]`
+        if (input.id) {
+          if (!state.findings.some((f) => f.id === input.id)) errors.push(`${label}: no such finding`)
+        } else {
+          if (!input.severity) errors.push(`${label}: 'severity' is required for a new finding`)
+          if (!input.category) errors.push(`${label}: 'category' is required for a new finding`)
+          if (!input.description?.trim()) errors.push(`${label}: 'description' is required for a new finding`)
+        }
+      })
+      if (errors.length > 0) {
+        return `ERROR: Invalid findings, nothing was recorded:\n${errors.map((e) => `- ${e}`).join("\n")}`
+      }
+
+      let added = 0
+      let resolved = 0
+      for (const input of args.findings) {
+        const file = input.file !== undefined ? toProjectPath(input.file, directory) : undefined
+        let finding = state.findings.find((f) => f.id === input.id)
+        if (!finding) {
+          finding = addFinding(state, {
+            severity: input.severity!,
+            category: input.category!,
+            file: file ?? null,
+            line: input.line ?? null,
+            description: input.description!.trim(),
+          })
+          added++
+        } else {
+          if (input.severity) finding.severity = input.severity
+          if (input.category) finding.category = input.category
+          if (file !== undefined) finding.file = file
+          if (input.line !== undefined) finding.line = input.line
+          if (input.description?.trim()) finding.description = input.description.trim()
+        }
+        if (input.status && input.status !== finding.status) {
+          finding.status = input.status
+          finding.resolvedIteration = input.status === "open" ? null : state.iterations
+          if (input.status !== "open") resolved++
+        }
+      }
+      await saveState(ctx.sessionID, state)
+      await recordHistory({
+        type: "review",
+        runID: state.runID,
+        sessionID: ctx.sessionID,
+        iteration: state.iterations,
+        reason: `${added} new, ${resolved} resolved -- ${findingsLabel(state)}`,
+      })
+
+      return (
+        `Findings: ${findingsLabel(state)}\n` +
+        state.findings.map((f) => `- ${formatFinding(f)}`).join("\n")
+      )
+    },
+  })
+
+  const pipelineRollback = tool({
+    description:
+      "Restore the worktree to the checkpoint taken at the start of an iteration, discarding everything the implementer changed since. Use it when an iteration made things worse. Only available while reviewing; the rollback is listed in the report.",
+    args: {
+      iteration: tool.schema.number().int().nonnegative().describe("Iteration to restore the start of (0 = before the first dispatch)"),
+      reason: tool.schema.string().optional().describe("Why the later changes are being discarded"),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+      if (state.phase !== "reviewing") {
+        return `ERROR: Rollback is only available while reviewing. Current phase: '${state.phase}'.`
+      }
+      const checkpoint = [...state.checkpoints].reverse().find((c) => c.iteration === args.iteration)
+      if (!checkpoint) {
+        const available = [...new Set(state.checkpoints.map((c) => c.iteration))]
+        return `ERROR: No checkpoint for iteration ${args.iteration}. Available: ${available.join(", ") || "(none)"}`
       }
-    }
-  }
-
-  return files
-}
-
-/**
- * Apply parsed hunks to file content.
- * Hunks are applied in reverse order (bottom-to-top) so earlier hunks
- * don't shift line numbers for later ones.
- */
-function applyHunks(content: string, hunks: PatchHunk[]): string {
-  const fileLines = content.split("\n")
-  const sorted = [...hunks].sort((a, b) => b.oldStart - a.oldStart)
 
-  for (const hunk of sorted) {
-    const removeLines: string[] = []
-    const addLines: string[] = []
-    let contextAndRemoveCount = 0
+      let result: { restored: string[]; deleted: string[] }
+      try {
+        const current = takeSnapshot(directory, listProjectFiles(state).files)
+        result = restoreCheckpoint(directory, checkpoint, current)
+      } catch (err: any) {
+        return `ERROR: Rollback failed, nothing was changed: ${err.message}`
+      }
 
-    for (const line of hunk.lines) {
-      const prefix = line[0]
-      const text = line.slice(1)
-      if (prefix === "-") {
-        removeLines.push(text)
-        contextAndRemoveCount++
-      } else if (prefix === "+") {
-        addLines.push(text)
-      } else if (prefix === " ") {
-        removeLines.push(text)
-        addLines.push(text)
-        contextAndRemoveCount++
+      const rollback: Rollback = {
+        toIteration: args.iteration,
+        undone: Array.from({ length: state.iterations - args.iteration + 1 }, (_, i) => args.iteration + i),
+        reason: args.reason?.trim() || null,
+        at: Date.now(),
       }
-    }
+      state.rollbacks.push(rollback)
+      await recordHistory({
+        type: "rollback",
+        runID: state.runID,
+        sessionID: ctx.sessionID,
+        iteration: args.iteration,
+        reason: rollback.reason ?? undefined,
+      })
 
-    const startIdx = hunk.oldStart - 1
-    fileLines.splice(startIdx, contextAndRemoveCount, ...addLines)
-  }
+      // The restored files are the plugin's work, not the implementer's --
+      // nothing new to review, but validation must run again
+      await computeChanges(ctx.sessionID, state)
+      markReviewed(state, (state.changedFiles ?? []).map((f) => f.path))
+      state.gitDiffCalled = true
+      state.diffViewed = true
+      state.validation = []
+      state.hygiene = null
+      state.discrepancies = []
+      await saveState(ctx.sessionID, state)
 
-  return fileLines.join("\n")
-}
+      return (
+        `Worktree ${formatRollback(rollback)}.\n` +
+        `Restored ${result.restored.length} file(s)${result.restored.length > 0 ? `: ${result.restored.join(", ")}` : ""}\n` +
+        `Deleted ${result.deleted.length} file(s)${result.deleted.length > 0 ? `: ${result.deleted.join(", ")}` : ""}\n` +
+        `Iterate with a better approach, or report -- the report must mention the rollback.`
+      )
+    },
+  })
 
-// ---------------------------------------------------------------------------
-// Plugin
-// ---------------------------------------------------------------------------
+  const pipelineAbort = tool({
+    description:
+      "Abort the current pipeline run -- the user changed their mind, or the work went off track -- and start a new run in brainstorming. The reason is recorded in the run history. Pass rollback: true to also restore the worktree to how it was before the run's first dispatch.",
+    args: {
+      reason: tool.schema.string().min(1).describe("Why the run is being abandoned"),
+      rollback: tool.schema.boolean().optional().describe("Discard every change the run's dispatches made (default false)"),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
+      if (!state) {
+        return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
+      }
+      if (state.phase === "complete") {
+        return "ERROR: This run is already complete. Call pipeline_reset to start a new one."
+      }
+      const reason = args.reason.trim()
 
-export const PipelineEnforcer: Plugin = async ({ client }) => {
-  /** Per-session pipeline state. Only populated for orchestrator sessions. */
-  const sessions = new Map<string, PipelineState>()
+      // Stop implementers still working for this run
+      if (state.dispatchStartedAt) {
+        for (const child of state.children.filter((c) => c.dispatch === state.dispatches)) {
+          await client.session.abort({ path: { id: child.sessionID } }).catch(() => {})
+        }
+      }
 
-  /**
-   * SessionIDs of known primary agents (orchestrator, plan, build, etc.).
-   * Populated in `chat.message` which provides the `agent` field.
-   * Any sessionID NOT in this set that triggers `tool.execute.before` is
-   * treated as a subagent session and has MCP tools blocked.
-   *
-   * This replaces the broken `client.session.get()` parentID approach —
-   * the SDK doesn't expose parentID in the response.
-   */
-  const knownPrimarySessions = new Set<string>()
+      let rollbackNote = ""
+      if (args.rollback) {
+        // The earliest checkpoint: a re-dispatch after a failure checkpoints
+        // iteration 0 again, over whatever the failed Task left behind
+        const checkpoint = state.checkpoints[0]
+        if (!checkpoint) {
+          rollbackNote = " Nothing was dispatched, so there was nothing to roll back."
+        } else {
+          try {
+            const current = takeSnapshot(directory, listProjectFiles(state).files)
+            const result = restoreCheckpoint(directory, checkpoint, current)
+            rollbackNote =
+              ` Worktree restored to before the first dispatch: ${result.restored.length} file(s) restored, ` +
+              `${result.deleted.length} deleted.`
+          } catch (err: any) {
+            return (
+              `ERROR: Rollback failed, nothing was changed and the run was not aborted: ${err.message}. ` +
+              `Call pipeline_abort without rollback to abort anyway.`
+            )
+          }
+          await recordHistory({
+            type: "rollback",
+            runID: state.runID,
+            sessionID: ctx.sessionID,
+            iteration: 0,
+            reason: `abort: ${reason}`,
+          })
+        }
+      }
 
-  /** Lazily detect git repo status on first custom tool call */
-  function ensureGitRepoDetected(
-    state: PipelineState,
-    directory: string
-  ): void {
-    if (state.isGitRepo === null) {
-      state.isGitRepo = checkGitRepo(directory)
-    }
-  }
+      const aborted = runLabel(state)
+      const from = state.phase
+      await endRun(ctx.sessionID, state, "aborted", reason)
+      const next = await startRun(ctx.sessionID)
+      await client.app.log({
+        body: {
+          service: "pipeline-enforcer",
+          level: "warn",
+          message: `Pipeline aborted in ${from}: ${reason}`,
+          extra: { sessionID: ctx.sessionID, runID: state.runID },
+        },
+      })
 
-  // -------------------------------------------------------------------------
-  // Custom tools
-  // -------------------------------------------------------------------------
+      return (
+        `Aborted ${aborted} in ${from}: ${reason}.${rollbackNote} ` +
+        `Started ${runLabel(next)} in ${next.phase.toUpperCase()}. ${getPhaseGuidance(config, next.phase, next)}`
+      )
+    },
+  })
 
-  const pipelineAdvance = tool({
+  const pipelineReset = tool({
     description:
-      "Advance the BRIR pipeline to the next phase. Valid targets depend on the current phase. Returns guidance for the new phase or an error if the transition is invalid.",
+      "Start a new pipeline run in this session, e.g. for a follow-up request, with its own counters. Allowed once the current run is complete, or before it has dispatched anything. Use pipeline_abort to abandon a run that has.",
     args: {
-      target: tool.schema.enum(["refine", "dispatch", "iterate", "report", "complete"]),
+      name: tool.schema.string().optional().describe("Short name for the new run"),
     },
     async execute(args, ctx) {
-      const state = sessions.get(ctx.sessionID)
+      const state = getState(ctx.sessionID)
       if (!state) {
         return "ERROR: No pipeline state for this session. This tool is only available to the orchestrator agent."
       }
-
-      // Lazy git repo detection
-      ensureGitRepoDetected(state, ctx.directory)
-
-      const targetPhase = TARGET_ALIASES[args.target]
-      if (!targetPhase) {
-        return `ERROR: Unknown target '${args.target}'. Valid targets: ${Object.keys(TARGET_ALIASES).join(", ")}`
+      if (state.phase !== "complete" && state.dispatches > 0) {
+        return (
+          `ERROR: ${runLabel(state)} is in ${state.phase} and has dispatched work. ` +
+          `Call pipeline_abort with a reason to abandon it (optionally rolling its changes back).`
+        )
       }
 
-      const allowed = TRANSITIONS[state.phase]
-      if (!allowed.includes(targetPhase)) {
-        const aliasNames = allowed.map((p) => {
-          if (state.phase === "reviewing" && p === "dispatching") return "iterate"
-          for (const [alias, target] of Object.entries(TARGET_ALIASES)) {
-            if (target === p && alias !== "iterate") return alias
-          }
-          return p
-        })
-        return `ERROR: Cannot transition from '${state.phase}' to '${args.target}'. Valid transitions from '${state.phase}': ${aliasNames.length > 0 ? aliasNames.join(", ") : "(none -- transitions are automatic)"}`
-      }
+      const previous = runLabel(state)
+      await endRun(ctx.sessionID, state, state.phase === "complete" ? "complete" : "abandoned")
+      const next = await startRun(ctx.sessionID, args.name?.trim() || null)
+      return (
+        `Closed ${previous}. Started ${runLabel(next)} in ${next.phase.toUpperCase()}. ` +
+        getPhaseGuidance(config, next.phase, next)
+      )
+    },
+  })
 
-      // --- Prerequisite checks ---
+  const pipelineHistory = tool({
+    description:
+      "List and summarize past BRIR pipeline runs in this project: outcome, iterations, dispatches, blocked tool calls, and average time per phase. Pass a runID for the full timeline of one run.",
+    args: {
+      runID: tool.schema.string().optional().describe("Show the full timeline of this run"),
+      limit: tool.schema.number().int().positive().optional().describe("Number of most recent runs to list (default 10)"),
+    },
+    async execute(args) {
+      const events = readHistory(historyFile)
+      if (args.runID) return formatRunTimeline(events, args.runID)
+      return summarizeHistory(events, args.limit ?? 10)
+    },
+  })
 
-      // iterate: must be under max iterations
-      if (args.target === "iterate") {
-        if (state.iterations >= MAX_ITERATIONS) {
-          return `ERROR: Maximum iterations (${MAX_ITERATIONS}) reached. You must proceed to 'report' instead. Note any remaining issues as caveats.`
-        }
-        state.gitDiffCalled = false
-        state.iterations++
-        state.dispatches++
-        state.phase = "dispatching"
+  /**
+   * Unified diff of one changed file against the dispatch snapshot. Tracked
+   * files in git use `git diff`; everything else is diffed against the
+   * object store (or /dev/null for new files). Returns null when the old
+   * content is unavailable.
+   */
+  function diffChangedFile(
+    state: PipelineState,
+    before: Snapshot,
+    file: ChangedFile
+  ): string | null {
+    const abs = path.join(directory, file.path)
+    if (state.isGitRepo && file.tracked) {
+      return execFileSync("git", ["diff", "--no-color", "HEAD", "--", file.path], {
+        cwd: directory,
+        encoding: "utf8",
+        maxBuffer: 16 * 1024 * 1024,
+      }).trimEnd()
+    }
+    const after = file.status === "deleted" ? null : fs.readFileSync(abs)
+    if (file.status === "added") return unifiedDiff(file.path, null, after)
 
-        await client.app.log({
-          body: {
-            service: "pipeline-enforcer",
-            level: "info",
-            message: `Phase: reviewing -> dispatching (iterate #${state.iterations})`,
-            extra: { sessionID: ctx.sessionID, iteration: state.iterations },
-          },
-        })
+    const entry = before[file.path]
+    const blob = path.join(directory, BRIR_DIR, OBJECTS_DIR, entry.hash)
+    if (fs.existsSync(blob)) return unifiedDiff(file.path, fs.readFileSync(blob), after)
+    if (entry.size > MAX_BLOB_SIZE) return unifiedDiff(file.path, "large", after)
+    return null
+  }
 
-        return `Advanced to DISPATCHING (iteration ${state.iterations}/${MAX_ITERATIONS}). ${PHASE_GUIDANCE.dispatching}`
+  /**
+   * Run the hygiene rules over this cycle's change set. Lockfiles and
+   * generated files are only reported, not scanned; whitespace in tracked
+   * git files comes from `git diff --check`, elsewhere from the added lines.
+   */
+  function checkHygiene(state: PipelineState): HygieneIssue[] {
+    const policy = config.hygiene
+    const matches = (rel: string, globs: string[]) => globs.some((g) => globToRegExp(g).test(rel))
+    const before: Snapshot = state.snapshotFile
+      ? JSON.parse(fs.readFileSync(path.join(directory, BRIR_DIR, state.snapshotFile), "utf8"))
+      : {}
+
+    const found: Array<{ rule: HygieneRule; path: string; line: number | null; message: string }> = []
+    const gitChecked: string[] = []
+    for (const file of state.changedFiles ?? []) {
+      if (matches(file.path, policy.ignore)) continue
+      if (matches(file.path, policy.lockfiles)) {
+        found.push({ rule: "lockfiles", path: file.path, line: null, message: `lockfile ${file.status}` })
+        continue
+      }
+      if (matches(file.path, policy.generated)) {
+        found.push({ rule: "generated-files", path: file.path, line: null, message: `generated file ${file.status}` })
+        continue
       }
+      if (file.status === "deleted") continue
 
-      // report: must have called git diff (only enforced in git repos)
-      if (args.target === "report") {
-        if (!state.gitDiffCalled && state.isGitRepo !== false) {
-          return "ERROR: You must run `git diff` before advancing to report. This ensures you have reviewed all changes."
-        }
+      let content: Buffer
+      try {
+        content = fs.readFileSync(path.join(directory, file.path))
+      } catch {
+        continue // removed again since the change set was computed
+      }
+      if (file.status === "added" && content.length > policy.maxFileSize) {
+        found.push({
+          rule: "large-files",
+          path: file.path,
+          line: null,
+          message: `new file of ${Math.round(content.length / 1024)} KB (limit ${Math.round(policy.maxFileSize / 1024)} KB)`,
+        })
+      }
+      if (isBinary(content)) {
+        if (file.status === "added") found.push({ rule: "binary-files", path: file.path, line: null, message: "new binary file" })
+        continue
       }
+      if (content.length > MAX_BLOB_SIZE) continue
 
-      // --- Execute transition ---
-      const previousPhase = state.phase
-      state.phase = targetPhase
+      const viaGit = Boolean(state.isGitRepo && file.tracked)
+      if (viaGit) gitChecked.push(file.path)
+      let diff: string | null = null
+      try {
+        diff = diffChangedFile(state, before, file)
+      } catch {
+        diff = null
+      }
+      if (!diff) continue
+      for (const issue of lineIssues(policy, addedLines(diff), !viaGit)) {
+        found.push({ ...issue, path: file.path })
+      }
+    }
 
-      if (targetPhase === "dispatching") {
-        state.dispatches++
+    if (gitChecked.length > 0) {
+      let out = ""
+      try {
+        out = execFileSync("git", ["diff", "--check", "--no-color", "HEAD", "--", ...gitChecked], {
+          cwd: directory,
+          encoding: "utf8",
+          maxBuffer: 16 * 1024 * 1024,
+          stdio: ["ignore", "pipe", "ignore"],
+        })
+      } catch (err: any) {
+        out = typeof err.stdout === "string" ? err.stdout : "" // exits non-zero when it finds errors
       }
+      for (const line of out.split("\n")) {
+        const m = line.match(/^(.+?):(\d+): (.+?)\.?$/)
+        if (!m || !gitChecked.includes(m[1]) || m[3].includes("conflict marker")) continue
+        found.push({ rule: "whitespace", path: m[1], line: Number(m[2]), message: m[3] })
+      }
+    }
+
+    return groupHygieneIssues(policy, found)
+  }
 
+  /** Check the change set if this cycle has not been checked yet */
+  async function ensureHygiene(sessionID: string, state: PipelineState): Promise<HygieneIssue[]> {
+    if (state.hygiene !== null || !state.changedFiles) return state.hygiene ?? []
+    state.hygiene = checkHygiene(state)
+    await saveState(sessionID, state)
+    if (state.hygiene.length > 0) {
       await client.app.log({
         body: {
           service: "pipeline-enforcer",
-          level: "info",
-          message: `Phase: ${previousPhase} -> ${targetPhase}`,
-          extra: { sessionID: ctx.sessionID, iteration: state.iterations },
+          level: blockingHygiene(state).length > 0 ? "warn" : "info",
+          message: `Diff hygiene: ${hygieneLabel(state)}`,
+          extra: { sessionID, issues: state.hygiene.map(formatHygieneIssue) },
         },
       })
+    }
+    return state.hygiene
+  }
 
-      if (targetPhase === "complete") {
-        const elapsed = Math.round((Date.now() - state.startTime) / 1000)
-        await client.tui.showToast({
-          body: {
-            message: `Pipeline complete: ${state.dispatches} dispatch(es), ${state.iterations} review cycle(s), ${elapsed}s`,
-            variant: "success",
-          },
-        })
-      }
-
-      return `Advanced to ${targetPhase.toUpperCase()}. ${getPhaseGuidance(targetPhase, state)}`
-    },
-  })
-
-  const pipelineStatus = tool({
+  const pipelineDiff = tool({
     description:
-      "Check the current pipeline phase, prerequisites, and valid transitions. Use this to understand where you are in the BRIR pipeline.",
-    args: {},
-    async execute(_args, ctx) {
-      const state = sessions.get(ctx.sessionID)
+      "Show the unified diff of every file the last dispatch changed, computed against a snapshot taken when it started. Works with or without git -- outside a git repository this is how you review changes. Only available while reviewing. Pass paths to show specific files.",
+    args: {
+      paths: tool.schema.array(tool.schema.string()).optional().describe("Only diff these changed files"),
+    },
+    async execute(args, ctx) {
+      const state = getState(ctx.sessionID)
       if (!state) {
         return "No pipeline state for this session. This tool is only available to the orchestrator agent."
       }
+      if (state.phase !== "reviewing") {
+        return `ERROR: pipeline_diff is only available while reviewing. Current phase: '${state.phase}'.`
+      }
+      if (!state.changedFiles || !state.snapshotFile) {
+        return state.isGitRepo
+          ? "No change set was recorded for this dispatch. Run `git diff` to review changes instead."
+          : "No snapshot was recorded for this dispatch, so there is nothing to diff. Read the modified files directly."
+      }
 
-      ensureGitRepoDetected(state, ctx.directory)
+      const requested = args.paths?.map((p) => toProjectPath(p, directory))
+      const unknown = requested?.filter((p) => !state.changedFiles!.some((f) => f.path === p)) ?? []
+      const selected = requested
+        ? state.changedFiles.filter((f) => requested.includes(f.path))
+        : state.changedFiles
+      if (state.changedFiles.length === 0) {
+        state.diffViewed = true
+        await saveState(ctx.sessionID, state)
+        return "No files changed since dispatch."
+      }
+
+      const before: Snapshot = JSON.parse(
+        fs.readFileSync(path.join(directory, BRIR_DIR, state.snapshotFile), "utf8")
+      )
+      const sections: string[] = []
+      const shown: string[] = []
+      const unavailable: string[] = []
+      const omitted: string[] = []
+      let size = 0
+      for (const file of selected) {
+        if (size > MAX_DIFF_OUTPUT) {
+          omitted.push(file.path)
+          continue
+        }
+        let diff: string | null
+        try {
+          diff = diffChangedFile(state, before, file)
+        } catch (err: any) {
+          unavailable.push(`${file.path} (${err.message.split("\n")[0]})`)
+          continue
+        }
+        if (diff === null) {
+          unavailable.push(file.path)
+          continue
+        }
+        if (sections.length > 0 && size + diff.length > MAX_DIFF_OUTPUT) {
+          omitted.push(file.path)
+          size = MAX_DIFF_OUTPUT + 1
+          continue
+        }
+        sections.push(diff || `(no textual difference for ${file.path})`)
+        shown.push(file.path)
+        size += diff.length
+      }
+
+      markReviewed(state, shown)
+      state.diffViewed = true
+      await saveState(ctx.sessionID, state)
 
-      return `${formatStatus(state)}\n\nCurrent phase guidance: ${getPhaseGuidance(state.phase, state)}`
+      const notes: string[] = []
+      if (unknown.length > 0) notes.push(`Not changed by this dispatch: ${unknown.join(", ")}`)
+      if (unavailable.length > 0) {
+        notes.push(`Previous content unavailable -- Read these and review them manually: ${unavailable.join(", ")}`)
+      }
+      if (omitted.length > 0) {
+        notes.push(`Output limit reached. Call pipeline_diff again with paths for: ${omitted.join(", ")}`)
+      }
+      const remaining = unreviewedFiles(state)
+      notes.push(
+        remaining.length > 0
+          ? `Still unreviewed: ${remaining.map((f) => f.path).join(", ")}`
+          : "All changed files reviewed."
+      )
+      return `${sections.join("\n\n")}\n\n${notes.join("\n")}`.trimStart()
     },
   })
 
@@ -445,73 +6052,52 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
 
   const applyPatch = tool({
     description:
-      "Apply a unified diff patch to create or modify files. Accepts standard unified diff format (like git diff output). Supports creating new files, modifying existing files, and multi-file patches.",
+      "Apply a patch to create, modify, delete or move files. Accepts standard unified diff format (like git diff output) and the `*** Begin Patch` envelope (*** Add File / *** Update File / *** Move to / *** Delete File with @@ anchors). Supports multi-file patches. Hunk context must match the current file (small line-number drift and whitespace differences are tolerated). Creating or moving onto a file that already exists is refused. The patch is all-or-nothing: if any file fails, no file is changed. Paths must stay inside the project directory and outside .git/. Set dryRun to see what would change without writing.",
     args: {
       patch: tool.schema.string(),
+      dryRun: tool.schema.boolean().optional(),
     },
     async execute(args, ctx) {
+      let files: PatchFile[]
       try {
-        const files = parsePatch(args.patch)
-        if (files.length === 0) {
-          return (
-            "ERROR: Could not parse any file changes from the patch. " +
-            "Make sure the patch is in unified diff format with --- and +++ headers. " +
-            "Alternatively, use the Write tool (to create files) or Edit tool (to modify files)."
-          )
-        }
+        files = parsePatch(args.patch)
+      } catch (err: any) {
+        return `ERROR parsing patch: ${err.message}`
+      }
+      if (files.length === 0) {
+        return (
+          "ERROR: Could not parse any file changes from the patch. " +
+          "Make sure the patch is a unified diff with --- and +++ headers, or a " +
+          "*** Begin Patch / *** End Patch envelope with *** Add/Update/Delete File: headers. " +
+          "Alternatively, use the Write tool (to create files) or Edit tool (to modify files)."
+        )
+      }
 
-        const results: string[] = []
-
-        for (const file of files) {
-          const filePath = resolvePatchPath(file.newPath, ctx.directory)
-
-          if (
-            file.oldPath === "/dev/null" ||
-            file.oldPath === "a//dev/null" ||
-            file.oldPath.endsWith("/dev/null")
-          ) {
-            const newContent = file.hunks
-              .flatMap((h) =>
-                h.lines
-                  .filter((l) => l.startsWith("+"))
-                  .map((l) => l.slice(1))
-              )
-              .join("\n")
-            const dir = path.dirname(filePath)
-            if (!fs.existsSync(dir)) {
-              fs.mkdirSync(dir, { recursive: true })
-            }
-            fs.writeFileSync(filePath, newContent)
-            results.push(`Created: ${filePath}`)
-          } else if (
-            file.newPath === "/dev/null" ||
-            file.newPath === "b//dev/null" ||
-            file.newPath.endsWith("/dev/null")
-          ) {
-            if (fs.existsSync(filePath)) {
-              fs.unlinkSync(filePath)
-              results.push(`Deleted: ${filePath}`)
-            } else {
-              results.push(`Skipped (already gone): ${filePath}`)
-            }
-          } else {
-            if (!fs.existsSync(filePath)) {
-              return `ERROR: File not found: ${filePath}. Use --- /dev/null for new file creation.`
-            }
-            const original = fs.readFileSync(filePath, "utf8")
-            const modified = applyHunks(original, file.hunks)
-            fs.writeFileSync(filePath, modified)
-            results.push(`Modified: ${filePath}`)
-          }
-        }
+      // --- Stage: validate every file and compute results in memory ---
+      const staged = stagePatch(files, ctx.directory)
+      if (staged.failures.length > 0) {
+        return (
+          `ERROR: Patch rejected -- no files were changed. ` +
+          `${staged.failures.length} problem(s):\n` +
+          staged.failures.map((f) => `- ${f}`).join("\n")
+        )
+      }
+
+      if (args.dryRun) {
+        return `Dry run -- no files were changed. The patch would apply cleanly:\n${staged.results.join("\n")}`
+      }
 
-        return `Patch applied successfully:\n${results.join("\n")}`
+      // --- Commit: write everything, restoring originals on any error ---
+      try {
+        commitStagedWrites(staged.writes)
       } catch (err: any) {
         return (
-          `ERROR applying patch: ${err.message}\n\n` +
+          `ERROR applying patch: ${err.message}. All changes were rolled back.\n\n` +
           `You can also use the Write tool (for new/full files) or Edit tool (for string replacements) instead.`
         )
       }
+
+      return `Patch applied successfully:\n${staged.results.join("\n")}`
     },
   })
 
@@ -523,24 +6109,35 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
     tool: {
       pipeline_advance: pipelineAdvance,
       pipeline_status: pipelineStatus,
+      pipeline_submit_spec: pipelineSubmitSpec,
+      pipeline_review: pipelineReview,
+      pipeline_rollback: pipelineRollback,
+      pipeline_abort: pipelineAbort,
+      pipeline_reset: pipelineReset,
+      pipeline_history: pipelineHistory,
+      pipeline_diff: pipelineDiff,
       apply_patch: applyPatch,
     },
 
-    // -- Initialize pipeline state & track primary sessions -----------------
-    "chat.message": async (input) => {
-      // Track ALL primary agent sessions for subagent detection.
-      // chat.message only fires for user-initiated messages, which means
-      // subagent sessions (spawned by Task tool) never appear here.
-      // Any sessionID not in this set during tool.execute.before = subagent.
-      if (input.agent && input.sessionID) {
-        knownPrimarySessions.add(input.sessionID)
-      }
+    // -- Initialize pipeline state, and start the next run after complete ---
+    "chat.message": async (input, output) => {
+      if (input.agent !== config.orchestratorAgent) return
 
-      if (input.agent !== ORCHESTRATOR_AGENT) return
+      // Only text the user typed counts as their request or approval;
+      // synthetic parts are injected by tools, commands and plugins
+      const text = output.parts
+        .filter((p) => p.type === "text" && !p.synthetic)
+        .map((p) => (p.type === "text" ? p.text : ""))
+        .join("\n")
+        .trim()
 
-      const existing = sessions.get(input.sessionID)
+      const existing = getState(input.sessionID)
       if (!existing) {
-        sessions.set(input.sessionID, freshState())
+        const state = await startRun(input.sessionID)
+        if (text) {
+          state.request = text
+          await saveState(input.sessionID, state)
+        }
         await client.app.log({
           body: {
             service: "pipeline-enforcer",
@@ -553,40 +6150,75 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
       }
 
       if (existing.phase === "complete") {
-        sessions.set(input.sessionID, freshState())
+        await endRun(input.sessionID, existing, "complete")
+        const next = await startRun(input.sessionID)
+        if (text) {
+          next.request = text
+          await saveState(input.sessionID, next)
+        }
         await client.app.log({
           body: {
             service: "pipeline-enforcer",
             level: "info",
-            message: "Pipeline reset: complete -> brainstorming (new user message)",
+            message: `Pipeline reset: complete -> brainstorming as ${runLabel(next)} (new user message)`,
             extra: { sessionID: input.sessionID },
           },
         })
+        return
       }
+
+      if (!text) return
+      const now = Date.now()
+      existing.request ??= text // a run started by pipeline_reset or pipeline_abort
+      existing.lastUserMessageAt = now
+      if (isApproval(config, text)) existing.lastApprovalAt = now
+      await saveState(input.sessionID, existing)
     },
 
     // -- Guard tools based on phase / block MCP noise in subagents ----------
     "tool.execute.before": async (input, output) => {
-      const state = sessions.get(input.sessionID)
-
-      // --- Subagent tool blocking ---
-      // If this sessionID was never seen in chat.message, it's a subagent.
-      // Block MCP tools that confuse the implementer model.
-      if (!knownPrimarySessions.has(input.sessionID)) {
-        const toolLower = input.tool.toLowerCase()
-        if (!SUBAGENT_ALLOWED_TOOLS.has(toolLower)) {
-          await client.app.log({
-            body: {
-              service: "pipeline-enforcer",
-              level: "info",
-              message: `Blocked MCP tool in subagent session: ${input.tool}`,
-              extra: { sessionID: input.sessionID },
-            },
-          })
-          throw new Error(
-            `Tool '${input.tool}' is not available in implementation sessions. ` +
-            `Use Read, Write, Edit, Bash, Glob, Grep, TodoWrite, or apply_patch for your work.`
-          )
+      const state = getState(input.sessionID)
+
+      // --- Subagent guards ---
+      // Sessions spawned by a pipeline run get its subagent policy (blocking
+      // MCP tools that confuse the implementer model) and its write scope
+      const run = state ? null : parentRun(input.sessionID)
+      if (run) {
+        const policy = resolvePolicy(config, run.child.agent)
+        const toolRule = toolPolicyViolation(policy, input.tool)
+        if (toolRule) {
+          await blockByPolicy(run, input.tool, input.tool, toolRule)
+        }
+        if (input.tool.toLowerCase() === "bash" && typeof output.args?.command === "string") {
+          const refused = bashPolicyViolation(policy, output.args.command)
+          if (refused) {
+            await blockByPolicy(run, input.tool, refused.segment, refused.rule)
+          }
+        }
+
+        // In a fan-out each implementer is held to its own subtask's files
+        // (or, until its session is identified, to all of them)
+        const fanOut = fanOutActive(run.state)
+        const sub = fanOut ? run.state.subtasks.find((s) => s.sessionID === input.sessionID) : undefined
+        const scope = sub?.files ?? run.state.scope
+        const targets = writeTargets(input.tool, output.args)
+        if (scope) {
+          const outside = targets.filter((rel) => !inScope(rel, scope))
+          if (outside.length > 0) {
+            await blockTool(
+              input.sessionID,
+              run.state.runID,
+              input.tool,
+              `BLOCKED: ${outside.join(", ")} ${outside.length === 1 ? "is" : "are"} outside the scope of this task ` +
+              `(${scope.join(", ")}). Do not work around this -- finish what you can and report ` +
+              `which files you need to change and why, so the orchestrator can widen the scope.`
+            )
+          }
+        }
+        if (fanOut && targets.length > 0) {
+          const writes = (run.state.childWrites[input.sessionID] ??= [])
+          writes.push(...targets.filter((t) => !writes.includes(t)))
+          await saveState(run.sessionID, run.state)
         }
         return
       }
@@ -598,21 +6230,72 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
 
       if (toolName === "task" || toolName === "Task") {
         if (state.phase !== "dispatching") {
-          throw new Error(
+          await blockTool(
+            input.sessionID,
+            state.runID,
+            toolName,
             `BLOCKED: The Task tool can only be used during the 'dispatching' phase. ` +
             `Current phase: '${state.phase}'. ` +
             `Call pipeline_advance() to reach the dispatching phase first.`
           )
         }
+        // Resuming an earlier implementer session moves it to this dispatch
+        if (typeof output.args?.task_id === "string") {
+          const child = await linkChild(
+            input.sessionID,
+            state,
+            output.args.task_id,
+            output.args.subagent_type ?? null,
+            input.callID
+          )
+          child.dispatch = state.dispatches
+          child.iteration = state.iterations
+          child.callID = input.callID
+          await saveState(input.sessionID, state)
+        }
+
+        if (fanOutActive(state)) {
+          const sub = matchSubtask(state, output.args)
+          const pending = state.subtasks.filter((s) => s.status === "pending" || s.status === "failed")
+          if (!sub || (sub.status !== "pending" && sub.status !== "failed")) {
+            await blockTool(
+              input.sessionID,
+              state.runID,
+              toolName,
+              (sub
+                ? `BLOCKED: Subtask '${sub.name}' is already ${sub.status} in this dispatch. `
+                : `BLOCKED: This dispatch fans out into subtasks -- start one Task per subtask, with the subtask name as its description. `) +
+              `Still to dispatch: ${pending.map((s) => s.name).join(", ") || "(none)"}`
+            )
+          }
+          await startSubtask(input.sessionID, state, sub!, input.callID, output.args)
+          return
+        }
+
+        // Carry open findings into the re-dispatch so nothing is lost between
+        // the orchestrator's summary and the implementer's prompt
+        const open = openFindings(state)
+        if (open.length > 0 && typeof output.args?.prompt === "string") {
+          output.args.prompt +=
+            `\n\n[BRIR open review findings -- fix every one, and say in your response how each was addressed]\n` +
+            open.map((f) => `- ${formatFinding(f)}`).join("\n")
+        }
+        await beginDispatch(input.sessionID, state, input.callID)
       }
 
       if (toolName === "write" || toolName === "Write") {
-        throw new Error(
+        await blockTool(
+          input.sessionID,
+          state.runID,
+          toolName,
           "BLOCKED: The orchestrator must not write files directly. All code changes go through brir-implementer via the Task tool."
         )
       }
       if (toolName === "edit" || toolName === "Edit") {
-        throw new Error(
+        await blockTool(
+          input.sessionID,
+          state.runID,
+          toolName,
           "BLOCKED: The orchestrator must not edit files directly. All code changes go through brir-implementer via the Task tool."
         )
       }
@@ -620,8 +6303,27 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
 
     // -- Track tool completions (git diff, Task) ---------------------------
     "tool.execute.after": async (input, output) => {
-      const state = sessions.get(input.sessionID)
-      if (!state) return
+      const state = getState(input.sessionID)
+      if (!state) {
+        // An implementer's bash calls, to check its self-report against
+        const run = parentRun(input.sessionID)
+        const command = input.args?.command
+        if (
+          run &&
+          input.tool.toLowerCase() === "bash" &&
+          typeof command === "string" &&
+          run.child.dispatch === run.state.dispatches
+        ) {
+          const exit = output.metadata?.exit
+          run.state.childCommands.push({
+            sessionID: input.sessionID,
+            command,
+            exitCode: typeof exit === "number" ? exit : null,
+          })
+          await saveState(run.sessionID, run.state)
+        }
+        return
+      }
 
       const toolName = input.tool
 
@@ -630,75 +6332,116 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
         state.phase === "reviewing"
       ) {
         const command = input.args?.command ?? input.args?.cmd ?? ""
-        if (typeof command === "string" && command.trimStart().startsWith("git diff")) {
+        const covered =
+          typeof command === "string"
+            ? gitDiffCoverage(command.trim(), state.changedFiles ?? [], listStagedFiles(directory), directory)
+            : null
+        if (covered) {
           state.gitDiffCalled = true
+          markReviewed(state, covered)
+          await saveState(input.sessionID, state)
           await client.app.log({
             body: {
               service: "pipeline-enforcer",
               level: "info",
-              message: "git diff detected during review",
+              message: `git diff detected during review (covers ${covered.length} changed file(s))`,
               extra: { sessionID: input.sessionID, command },
             },
           })
         }
       }
 
+      if ((toolName === "read" || toolName === "Read") && state.phase === "reviewing") {
+        const filePath = input.args?.filePath ?? input.args?.path
+        if (typeof filePath === "string" && state.changedFiles) {
+          const rel = toProjectPath(filePath, directory)
+          if (state.changedFiles.some((f) => f.path === rel)) {
+            markReviewed(state, [rel])
+            await saveState(input.sessionID, state)
+          }
+        }
+      }
+
+      // The Task output names its session even if session.created was missed
+      // (a Task finishing outside dispatching belongs to an aborted run)
+      if ((toolName === "task" || toolName === "Task") && state.phase === "dispatching") {
+        const childID = taskSessionID(output)
+        if (childID) {
+          await linkChild(input.sessionID, state, childID, input.args?.subagent_type ?? null, input.callID)
+        }
+      }
+
       if (
         (toolName === "task" || toolName === "Task") &&
         state.phase === "dispatching"
       ) {
-        const taskOutput = output.output ?? ""
-        const failureMarkers = [
-          "Task failed",
-          "TASK_FAILED",
-          "task was aborted",
-          "agent crashed",
-        ]
-        const isFailed = failureMarkers.some((marker) =>
-          taskOutput.includes(marker)
+        if (fanOutActive(state)) {
+          await finishSubtask(input.sessionID, state, input, output)
+          return
+        }
+
+        let failure = await judgeDispatch(input.sessionID, state, output.output ?? "")
+        failure = await retryTransient(
+          input.sessionID,
+          state,
+          input.callID,
+          input.args,
+          output,
+          failure,
+          "Implementation",
+          {
+            failed: (f) => endDispatch(input.sessionID, state, f),
+            restart: () => beginDispatch(input.sessionID, state, input.callID),
+            judge: (text, error) => {
+              state.dispatchError = error
+              return judgeDispatch(input.sessionID, state, text)
+            },
+          }
         )
 
-        if (isFailed) {
+        await endDispatch(input.sessionID, state, failure)
+        if (failure) {
+          state.changedFiles = null
+          await saveState(input.sessionID, state)
           await client.app.log({
             body: {
               service: "pipeline-enforcer",
               level: "warn",
-              message:
-                "Task tool returned possible failure -- staying in dispatching phase",
-              extra: {
-                sessionID: input.sessionID,
-                outputPreview: taskOutput.slice(0, 200),
-              },
+              message: `Dispatch failed (${failure.kind}) -- staying in dispatching phase`,
+              extra: { sessionID: input.sessionID, reason: failure.message },
             },
           })
+          output.output =
+            `${output.output ?? ""}\n\n[BRIR dispatch FAILED -- ${failure.kind}: ${failure.message}]\n` +
+            `The pipeline stays in dispatching. Re-dispatch with the Task tool` +
+            (failure.kind === "no_changes"
+              ? ", stating explicitly which files must change."
+              : ", adjusting the prompt if the failure was not transient.")
           return
         }
 
-        state.phase = "reviewing"
-        await client.app.log({
-          body: {
-            service: "pipeline-enforcer",
-            level: "info",
-            message: "Phase: dispatching -> reviewing (auto-advance on Task completion)",
-            extra: { sessionID: input.sessionID },
-          },
+        state.selfReports.push({
+          sessionID: taskSessionID(output),
+          subtask: null,
+          ...parseSelfReport(taskResultText(output.output ?? ""), directory),
         })
+        output.output = `${output.output ?? ""}${await completeDispatch(input.sessionID, state, [input.callID])}`
       }
     },
 
     // -- Inject phase status into system prompt (every turn) ---------------
     "experimental.chat.system.transform": async (input, output) => {
       if (!input.sessionID) return
-      const state = sessions.get(input.sessionID)
+      const state = getState(input.sessionID)
       if (!state) return
 
       const gitNote =
         state.isGitRepo === false
-          ? " This is NOT a git repo -- skip git diff and verify changes by reading files directly."
+          ? " This is NOT a git repo -- use pipeline_diff instead of git diff to review changes."
           : ""
 
       output.system.push(
-        `\n${statusBanner(state)}\n` +
+        `\n${statusBanner(config, state)}\n` +
         `You MUST call pipeline_advance() to transition between phases. ` +
         `You MUST call pipeline_status() if you are unsure where you are. ` +
         `The Task tool is ONLY available during the dispatching phase.` +
@@ -708,19 +6451,45 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
 
     // -- Inject phase context during compaction ----------------------------
     "experimental.session.compacting": async (input, output) => {
-      const state = sessions.get(input.sessionID)
+      const state = getState(input.sessionID)
       if (!state) return
 
       output.context.push(
         `PIPELINE STATE (preserve this):\n` +
+        `- Run: ${runLabel(state)} (${state.runID})\n` +
         `- Phase: ${state.phase}\n` +
-        `- Iteration: ${state.iterations}/${MAX_ITERATIONS}\n` +
-        `- git diff called this cycle: ${state.gitDiffCalled}\n` +
+        `- Iteration: ${state.iterations}/${config.maxIterations}\n` +
+        `- Review coverage this cycle: ${reviewLabel(state)}\n` +
+        (unreviewedFiles(state).length > 0
+          ? `- Unreviewed changed files: ${unreviewedFiles(state).map((f) => f.path).join(", ")}\n`
+          : "") +
+        (state.scope ? `- Dispatch scope: ${state.scope.join(", ")}\n` : "") +
+        (state.specFile ? `- Spec: ${path.join(BRIR_DIR, state.specFile)}\n` : "") +
+        (state.subtasks.length > 0 ? `- Subtasks: ${state.subtasks.map(formatSubtask).join(", ")}\n` : "") +
         `- Is git repo: ${state.isGitRepo ?? "unknown"}\n` +
         `- Total dispatches: ${state.dispatches}\n` +
+        (state.failedDispatches > 0 ? `- Failed dispatches: ${state.failedDispatches}\n` : "") +
+        (state.validation.length > 0 ? `- Validation: ${validationLabel(state)}\n` : "") +
+        (state.hygiene && state.hygiene.length > 0 ? `- Diff hygiene: ${hygieneLabel(state)}\n` : "") +
+        (state.discrepancies.length > 0
+          ? `- Self-report discrepancies:\n${state.discrepancies.map((d) => `  - ${d}`).join("\n")}\n`
+          : "") +
+        (openFindings(state).length > 0
+          ? `- Open review findings:\n${openFindings(state).map((f) => `  - ${formatFinding(f)}`).join("\n")}\n`
+          : "") +
+        (state.caveats.length > 0 ? `- Mandatory caveats: ${state.caveats.join("; ")}\n` : "") +
+        (state.rollbacks.length > 0 ? `- Rollbacks: ${state.rollbacks.map(formatRollback).join("; ")}\n` : "") +
         `- Elapsed: ${Math.round((Date.now() - state.startTime) / 1000)}s\n` +
-        `- Current guidance: ${getPhaseGuidance(state.phase, state)}`
+        `- Usage: ${formatUsageBreakdown(state).replace(/\n/g, "; ")}\n` +
+        (budgetExceeded(config, state) ? `- OVER BUDGET: ${budgetExceeded(config, state)}\n` : "") +
+        `- Current guidance: ${getPhaseGuidance(config, state.phase, state)}`
       )
+
+      // The spec must survive compaction verbatim -- iterations re-dispatch it
+      const spec = readSpec(state)
+      if (spec) {
+        output.context.push(`SUBMITTED SPEC (preserve this -- iterations must keep dispatching it):\n${spec}`)
+      }
     },
 
     // -- Observability (absorbed from workflow-logger) ---------------------
@@ -740,6 +6509,96 @@ export const PipelineEnforcer: Plugin = async ({ client }) => {
             },
           },
         })
+
+        // An implementer session failing mid-Task fails its dispatch
+        const errorSession = event.properties.sessionID
+        const run = errorSession ? parentRun(errorSession) : null
+        if (errorSession && run) {
+          const error = event.properties.error
+          const message =
+            error && "data" in error && error.data && "message" in error.data
+              ? String(error.data.message)
+              : error?.name ?? "unknown session error"
+          if (run.child.dispatch === run.state.dispatches && run.state.dispatchStartedAt) {
+            run.state.dispatchError = message
+            run.state.childErrors[errorSession] = message
+            await saveState(run.sessionID, run.state)
+          }
+          await recordHistory({
+            type: "child_error",
+            runID: run.state.runID,
+            sessionID: errorSession,
+            iteration: run.child.iteration,
+            dispatch: run.child.dispatch,
+            agent: run.child.agent ?? undefined,
+            reason: message,
+          })
+        }
+      }
+
+      // Identify subagent sessions: Task titles its child session
+      // "<description> (@<agent> subagent)", and in a fan-out the
+      // description names the subtask
+      if (event.type === "session.created" && event.properties.info.parentID) {
+        const info = event.properties.info
+        const parentID = info.parentID!
+        const parent = getState(parentID)
+        // A child of a pipeline child (e.g. its own Task) joins the same run
+        const owner = parent ? { sessionID: parentID, state: parent } : parentRun(parentID)
+        if (owner) {
+          let sub: Subtask | undefined
+          if (parent && fanOutActive(parent)) {
+            const title = info.title.toLowerCase()
+            sub = parent.subtasks
+              .filter((s) => s.status === "running" && !s.sessionID && title.startsWith(s.name.toLowerCase()))
+              .sort((a, b) => b.name.length - a.name.length)[0]
+            if (sub) sub.sessionID = info.id
+          }
+          // The Task call it runs under: its subtask's, the running Task's,
+          // or (nested) its parent session's
+          const callID = sub
+            ? sub.callID
+            : parent
+              ? parent.dispatchCallID
+              : (owner.state.children.find((c) => c.sessionID === parentID)?.callID ?? null)
+          const agent = /\(@([^\s)]+) subagent\)\s*$/.exec(info.title)?.[1] ?? null
+          await linkChild(owner.sessionID, owner.state, info.id, agent, callID)
+        }
+      }
+
+      if (event.type === "message.updated" && event.properties.info.role === "assistant") {
+        await recordUsage(event.properties.info)
+      }
+
+      if (event.type === "session.idle") {
+        const state = getState(event.properties.sessionID)
+        if (state && state.phase !== "complete") {
+          await awaitingUser(event.properties.sessionID, state)
+        }
+      }
+
+      // The Task tool erroring never reaches tool.execute.after
+      if (event.type === "message.part.updated") {
+        const part = event.properties.part
+        if (
+          part.type === "tool" &&
+          part.tool.toLowerCase() === "task" &&
+          part.state.status === "error"
+        ) {
+          const state = getState(part.sessionID)
+          const sub = state && fanOutActive(state)
+            ? state.subtasks.find((s) => s.callID === part.callID && s.status === "running")
+            : undefined
+          if (sub) {
+            await failSubtask(part.sessionID, state!, sub, part.state.error)
+          } else if (state?.phase === "dispatching" && state.dispatchStartedAt && !fanOutActive(state)) {
+            await endDispatch(
+              part.sessionID,
+              state,
+              dispatchFailure(state, "tool_error", part.state.error)
+            )
+          }
+        }
       }
     },
   }
@@ -0,0 +1,681 @@
+#!/usr/bin/env bun
+/**
+ * brir -- install, update and check BRIR in a project.
+ *
+ *   brir init [dir]               copy the agents, plugin and commands into dir/.opencode
+ *   brir update [dir] [--dry-run] bring them up to date, showing a diff
+ *   brir doctor [dir]             check the setup
+ *
+ * Run from a clone of this repository: `bun path/to/brir/cli/brir.ts init`.
+ * It has no dependencies of its own.
+ */
+
+import { execFileSync } from "child_process"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { fileURLToPath, pathToFileURL } from "url"
+import type { PipelineEnforcer } from "../.opencode/plugins/pipeline-enforcer"
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** This checkout's .opencode directory -- what gets installed */
+const SOURCE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", ".opencode")
+
+/** Directories under .opencode that are copied; everything else is left alone */
+const INSTALLED_DIRS = ["agents", "plugins", "commands"]
+
+const PLUGIN_PACKAGE = "@opencode-ai/plugin"
+const PLUGIN_FILE = path.join("plugins", "pipeline-enforcer.ts")
+const ORCHESTRATOR_FILE = path.join("agents", "orchestrator.md")
+const IMPLEMENTER_AGENT = "brir-implementer"
+
+/** Lists the files init or update installed, so update can delete those BRIR no longer ships */
+const MANIFEST_FILE = "brir-files.json"
+
+/** Not copied into doctor's scratch .opencode: dependencies and the plugin's checkpoint copies */
+const SCRATCH_SKIPPED = ["node_modules", path.join("brir", "objects"), path.join("brir", "snapshots")]
+
+/**
+ * Frontmatter keys that describe the user's own setup (which model, how
+ * creative, what colour) rather than how the pipeline works. Update keeps
+ * the project's values for these.
+ */
+const PRESERVED_KEYS = ["model", "temperature", "top_p", "color"]
+
+const USAGE = `Usage: brir <command> [dir] [options]
+
+Commands:
+  init     Install BRIR into dir/.opencode (default: the current directory)
+  update   Update an existing install, keeping your model and temperature
+           settings, and show what changed. --dry-run only shows the diff.
+  doctor   Check the install: files, ${PLUGIN_PACKAGE} dependency, OpenCode
+           version, the orchestrator's permission to dispatch, and that the
+           plugin loads.`
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A file this checkout installs, relative to .opencode */
+interface InstallFile {
+  rel: string
+  content: string
+}
+
+/** What an install or update would write to one file */
+interface PlannedWrite {
+  rel: string // relative to .opencode
+  before: string | null // null when the file does not exist yet
+  after: string | null // null deletes the file
+}
+
+/** A plugin export and what OpenCode passes it, typed from this checkout's plugin */
+type Plugin = typeof PipelineEnforcer
+type PluginInput = Parameters<Plugin>[0]
+
+type CheckLevel = "ok" | "warn" | "fail"
+
+interface CheckResult {
+  level: CheckLevel
+  name: string
+  detail: string
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fail(message: string): never {
+  console.error(`brir: ${message}`)
+  process.exit(1)
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/** agents\x.md -> agents/x.md: the manifest and diffs use / on every platform */
+function toPosix(rel: string): string {
+  return rel.split(path.sep).join("/")
+}
+
+function readIfExists(file: string): string | null {
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null
+}
+
+/** Every file under the installed directories of SOURCE_DIR */
+function sourceFiles(): InstallFile[] {
+  const files: InstallFile[] = []
+  for (const dir of INSTALLED_DIRS) {
+    const abs = path.join(SOURCE_DIR, dir)
+    if (!fs.existsSync(abs)) continue
+    for (const name of fs.readdirSync(abs).sort()) {
+      const rel = path.join(dir, name)
+      if (fs.statSync(path.join(SOURCE_DIR, rel)).isFile()) {
+        files.push({ rel, content: fs.readFileSync(path.join(SOURCE_DIR, rel), "utf8") })
+      }
+    }
+  }
+  if (files.length === 0) fail(`no BRIR files found in ${SOURCE_DIR}`)
+  return files
+}
+
+/** The plugin dependency version this checkout was written against */
+function pluginVersion(): string {
+  const pkg = JSON.parse(fs.readFileSync(path.join(SOURCE_DIR, "package.json"), "utf8"))
+  const version = pkg.dependencies?.[PLUGIN_PACKAGE]
+  if (typeof version !== "string") fail(`${SOURCE_DIR}/package.json does not depend on ${PLUGIN_PACKAGE}`)
+  return version
+}
+
+/** "1.2.10" / "^1.2.10" / "opencode 1.2.10" -> [1, 2, 10] */
+function parseVersion(text: string): number[] | null {
+  const match = /(\d+)\.(\d+)\.(\d+)/.exec(text)
+  return match ? match.slice(1).map(Number) : null
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter -- the YAML header of agent and command files
+// ---------------------------------------------------------------------------
+
+/** Split "---\n...\n---\n" off the top of a Markdown file */
+function splitFrontmatter(text: string): { header: string[]; body: string } | null {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/.exec(text)
+  if (!match) return null
+  return { header: match[1].split(/\r?\n/), body: text.slice(match[0].length) }
+}
+
+/** The top-level `key: value` line for key, if any */
+function topLevelLine(header: string[], key: string): number {
+  return header.findIndex((line) => new RegExp(`^${key}\\s*:`).test(line))
+}
+
+/**
+ * The upstream file, with the installed file's values for PRESERVED_KEYS
+ * carried over. Only single-line values are preserved.
+ */
+function mergeFrontmatter(installed: string, upstream: string): string {
+  const mine = splitFrontmatter(installed)
+  const theirs = splitFrontmatter(upstream)
+  if (!mine || !theirs) return upstream
+
+  const header = [...theirs.header]
+  for (const key of PRESERVED_KEYS) {
+    const at = topLevelLine(mine.header, key)
+    if (at === -1) continue
+    const existing = topLevelLine(header, key)
+    if (existing === -1) header.push(mine.header[at])
+    else header[existing] = mine.header[at]
+  }
+  return `---\n${header.join("\n")}\n---\n${theirs.body}`
+}
+
+type Yaml = string | { [key: string]: Yaml }
+
+/**
+ * Parse the subset of YAML agent frontmatter uses: nested maps of scalars,
+ * with optionally quoted keys and values. Lists and multi-line strings are
+ * skipped.
+ */
+function parseYaml(lines: string[]): { [key: string]: Yaml } {
+  const root: { [key: string]: Yaml } = {}
+  const stack: Array<{ indent: number; map: { [key: string]: Yaml } }> = [{ indent: -1, map: root }]
+  const unquote = (s: string) => s.trim().replace(/^(["'])(.*)\1$/, "$2")
+
+  for (const line of lines) {
+    if (!line.trim() || line.trim().startsWith("#")) continue
+    const match = /^(\s*)("[^"]*"|'[^']*'|[^:]+):\s*(.*)$/.exec(line)
+    if (!match) continue
+    const indent = match[1].length
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop()
+    const parent = stack[stack.length - 1].map
+    const key = unquote(match[2])
+    const value = match[3].replace(/\s+#.*$/, "")
+    if (value === "") {
+      const child: { [key: string]: Yaml } = {}
+      parent[key] = child
+      stack.push({ indent, map: child })
+    } else {
+      parent[key] = unquote(value)
+    }
+  }
+  return root
+}
+
+// ---------------------------------------------------------------------------
+// Diff -- the same LCS line diff the plugin's pipeline_diff uses
+// ---------------------------------------------------------------------------
+
+/** Beyond this many LCS cells, changed regions are shown as remove + add */
+const MAX_DIFF_CELLS = 4_000_000
+
+type DiffOp = { op: " " | "-" | "+"; text: string }
+
+function splitLines(text: string): string[] {
+  if (text === "") return []
+  const lines = text.split("\n")
+  if (lines[lines.length - 1] === "") lines.pop()
+  return lines
+}
+
+/** Line-level edit script via LCS, after trimming the common prefix/suffix */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((text) => ({ op: " ", text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  if (n * m > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((text): DiffOp => ({ op: "-", text })))
+    ops.push(...midB.map((text): DiffOp => ({ op: "+", text })))
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ op: " ", text: midA[i++] })
+        j++
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push({ op: "-", text: midA[i++] })
+      } else {
+        ops.push({ op: "+", text: midB[j++] })
+      }
+    }
+    while (i < n) ops.push({ op: "-", text: midA[i++] })
+    while (j < m) ops.push({ op: "+", text: midB[j++] })
+  }
+
+  ops.push(...a.slice(endA).map((text): DiffOp => ({ op: " ", text })))
+  return ops
+}
+
+/** Unified diff of one planned write, with 3 lines of context */
+function unifiedDiff(write: PlannedWrite): string {
+  const ops = diffLines(splitLines(write.before ?? ""), splitLines(write.after ?? ""))
+  const oldNo: number[] = []
+  const newNo: number[] = []
+  let o = 1
+  let n = 1
+  for (const op of ops) {
+    oldNo.push(o)
+    newNo.push(n)
+    if (op.op !== "+") o++
+    if (op.op !== "-") n++
+  }
+
+  const rel = toPosix(write.rel)
+  const out = [
+    write.before === null ? "--- /dev/null" : `--- a/.opencode/${rel}`,
+    write.after === null ? "+++ /dev/null" : `+++ b/.opencode/${rel}`,
+  ]
+  let idx = 0
+  while (idx < ops.length) {
+    while (idx < ops.length && ops[idx].op === " ") idx++
+    if (idx >= ops.length) break
+
+    const start = Math.max(0, idx - 3)
+    let last = idx
+    for (let k = idx; k < ops.length && k - last <= 6; k++) {
+      if (ops[k].op !== " ") last = k
+    }
+    const end = Math.min(ops.length, last + 4)
+
+    const slice = ops.slice(start, end)
+    const oldCount = slice.filter((x) => x.op !== "+").length
+    const newCount = slice.filter((x) => x.op !== "-").length
+    const oldStart = oldCount === 0 ? oldNo[start] - 1 : oldNo[start]
+    const newStart = newCount === 0 ? newNo[start] - 1 : newNo[start]
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    out.push(...slice.map((x) => `${x.op}${x.text}`))
+    idx = end
+  }
+  return out.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Install and update
+// ---------------------------------------------------------------------------
+
+/**
+ * .opencode/package.json with the plugin dependency added or set to this
+ * checkout's version; every other field is kept.
+ */
+function mergePackageJson(existing: string | null, version: string): { content: string; note: string | null } {
+  let pkg: Record<string, unknown> = {}
+  if (existing !== null) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(existing)
+    } catch (err) {
+      fail(`.opencode/package.json is not valid JSON (${errorMessage(err)}) -- fix it, then run this again`)
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      fail(".opencode/package.json is not a JSON object -- fix it, then run this again")
+    }
+    pkg = parsed as Record<string, unknown>
+  }
+  const dependencies =
+    typeof pkg.dependencies === "object" && pkg.dependencies !== null
+      ? (pkg.dependencies as Record<string, unknown>)
+      : {}
+  const current = dependencies[PLUGIN_PACKAGE]
+  pkg.dependencies = { ...dependencies, [PLUGIN_PACKAGE]: version }
+  const note =
+    current === version ? null : current ? `${PLUGIN_PACKAGE} ${current} -> ${version}` : `added ${PLUGIN_PACKAGE} ${version}`
+  return { content: `${JSON.stringify(pkg, null, 2)}\n`, note: existing === null ? null : note }
+}
+
+/**
+ * The files the last init or update installed, from the manifest. Installs
+ * older than the manifest have none listed. Entries other than a file
+ * directly under an installed directory are ignored, so a hand-edited
+ * manifest cannot get anything else deleted.
+ */
+function installedFiles(target: string): string[] {
+  const text = readIfExists(path.join(target, ".opencode", MANIFEST_FILE))
+  if (text === null) return []
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(text)
+  } catch (err) {
+    fail(`.opencode/${MANIFEST_FILE} is not valid JSON (${errorMessage(err)}) -- delete it, then run this again`)
+  }
+  const files = typeof manifest === "object" && manifest !== null && "files" in manifest ? manifest.files : undefined
+  if (!Array.isArray(files)) fail(`.opencode/${MANIFEST_FILE} has no "files" list -- delete it, then run this again`)
+  return files
+    .filter((f): f is string => typeof f === "string")
+    .map((f) => f.split("/"))
+    .filter(
+      ([dir, name, ...rest]) =>
+        INSTALLED_DIRS.includes(dir) && !!name && name !== "." && name !== ".." && rest.length === 0
+    )
+    .map((parts) => path.join(...parts))
+}
+
+/**
+ * The agent, plugin and command files that differ from this checkout, and
+ * the installed ones it no longer ships (to delete)
+ */
+function planFileWrites(target: string): PlannedWrite[] {
+  const writes: PlannedWrite[] = []
+  const files = sourceFiles()
+  for (const file of files) {
+    const before = readIfExists(path.join(target, ".opencode", file.rel))
+    const after = before !== null && file.rel.endsWith(".md") ? mergeFrontmatter(before, file.content) : file.content
+    if (before !== after) writes.push({ rel: file.rel, before, after })
+  }
+  const shipped = new Set(files.map((f) => f.rel))
+  for (const rel of installedFiles(target).filter((rel) => !shipped.has(rel))) {
+    const before = readIfExists(path.join(target, ".opencode", rel))
+    if (before !== null) writes.push({ rel, before, after: null })
+  }
+  return writes
+}
+
+/** What bringing target/.opencode up to this checkout would change */
+function planWrites(target: string): PlannedWrite[] {
+  const writes = planFileWrites(target)
+  const before = readIfExists(path.join(target, ".opencode", "package.json"))
+  const pkg = mergePackageJson(before, pluginVersion())
+  if (pkg.note !== null || before === null) writes.push({ rel: "package.json", before, after: pkg.content })
+
+  const manifest = `${JSON.stringify({ files: sourceFiles().map((f) => toPosix(f.rel)) }, null, 2)}\n`
+  const installed = readIfExists(path.join(target, ".opencode", MANIFEST_FILE))
+  if (installed !== manifest) writes.push({ rel: MANIFEST_FILE, before: installed, after: manifest })
+  return writes
+}
+
+function applyWrites(target: string, writes: PlannedWrite[]): void {
+  for (const write of writes) {
+    const file = path.join(target, ".opencode", write.rel)
+    if (write.after === null) {
+      fs.rmSync(file, { force: true })
+      continue
+    }
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, write.after)
+  }
+}
+
+function init(target: string): void {
+  const opencode = path.join(target, ".opencode")
+  const existing = sourceFiles()
+    .map((f) => f.rel)
+    .filter((rel) => fs.existsSync(path.join(opencode, rel)))
+  if (existing.length > 0) {
+    fail(
+      `BRIR files already exist in ${opencode}: ${existing.join(", ")}\n` +
+        `Run \`brir update\` instead -- it keeps your model settings and shows what changes.`
+    )
+  }
+
+  const writes = planWrites(target)
+  applyWrites(target, writes)
+  for (const write of writes) {
+    console.log(
+      write.after === null
+        ? `deleted .opencode/${write.rel}, which this BRIR version no longer ships`
+        : write.before === null
+          ? `created .opencode/${write.rel}`
+          : write.rel === "package.json"
+            ? `merged ${PLUGIN_PACKAGE} into .opencode/${write.rel}`
+            : `updated .opencode/${write.rel}`
+    )
+  }
+  console.log(`\nRestart OpenCode, then run \`brir doctor\` to check the setup.`)
+}
+
+function update(target: string, dryRun: boolean): void {
+  if (!fs.existsSync(path.join(target, ".opencode", PLUGIN_FILE))) {
+    fail(`BRIR is not installed in ${target} (no .opencode/${PLUGIN_FILE}) -- run \`brir init\` first`)
+  }
+
+  const writes = planWrites(target)
+  if (writes.length === 0) {
+    console.log("BRIR is up to date.")
+    return
+  }
+  for (const write of writes) console.log(`${unifiedDiff(write)}\n`)
+  const stale = writes.filter((w) => w.after === null).map((w) => `.opencode/${toPosix(w.rel)}`)
+  if (dryRun) {
+    console.log(
+      `${writes.length} file(s) would change` +
+        (stale.length > 0 ? `, deleting ${stale.join(", ")}, which this BRIR version no longer ships` : "") +
+        `. Run without --dry-run to apply.`
+    )
+    return
+  }
+  applyWrites(target, writes)
+  console.log(
+    `Updated ${writes.length} file(s)` +
+      (stale.length > 0 ? `, deleting ${stale.join(", ")}, which this BRIR version no longer ships` : "") +
+      `. Kept your ${PRESERVED_KEYS.join(", ")} settings; ` +
+      `other local edits to these files were replaced (see the diff above).\nRestart OpenCode to load the update.`
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Doctor
+// ---------------------------------------------------------------------------
+
+function checkFiles(target: string): CheckResult {
+  const opencode = path.join(target, ".opencode")
+  const files = sourceFiles()
+  const missing = files.filter((f) => !fs.existsSync(path.join(opencode, f.rel))).map((f) => f.rel)
+  if (missing.length > 0) {
+    return { level: "fail", name: "Files", detail: `missing ${missing.join(", ")} -- run \`brir init\`` }
+  }
+  const outdated = planFileWrites(target).map((w) => (w.after === null ? `${w.rel} (no longer shipped)` : w.rel))
+  return outdated.length > 0
+    ? { level: "warn", name: "Files", detail: `differ from this BRIR version: ${outdated.join(", ")} -- see \`brir update --dry-run\`` }
+    : { level: "ok", name: "Files", detail: `${files.length} file(s) up to date` }
+}
+
+function checkDependency(target: string): CheckResult {
+  const text = readIfExists(path.join(target, ".opencode", "package.json"))
+  let version: unknown
+  try {
+    version = text === null ? undefined : JSON.parse(text).dependencies?.[PLUGIN_PACKAGE]
+  } catch (err) {
+    return { level: "fail", name: "Dependency", detail: `.opencode/package.json is not valid JSON: ${errorMessage(err)}` }
+  }
+  if (typeof version !== "string") {
+    return { level: "fail", name: "Dependency", detail: `.opencode/package.json does not depend on ${PLUGIN_PACKAGE} -- run \`brir update\`` }
+  }
+  const have = parseVersion(version)
+  const want = parseVersion(pluginVersion())!
+  return have && compareVersions(have, want) < 0
+    ? { level: "warn", name: "Dependency", detail: `${PLUGIN_PACKAGE} ${version} is older than ${pluginVersion()} -- run \`brir update\`` }
+    : { level: "ok", name: "Dependency", detail: `${PLUGIN_PACKAGE} ${version}` }
+}
+
+function checkOpencodeVersion(): CheckResult {
+  const minimum = pluginVersion()
+  let output: string
+  try {
+    output = execFileSync("opencode", ["--version"], { encoding: "utf8", timeout: 10_000, stdio: ["ignore", "pipe", "pipe"] })
+  } catch (err) {
+    const notFound = err instanceof Error && "code" in err && err.code === "ENOENT"
+    return {
+      level: "fail",
+      name: "OpenCode",
+      detail: notFound ? "`opencode` is not on PATH" : `\`opencode --version\` failed: ${errorMessage(err)}`,
+    }
+  }
+  const version = parseVersion(output)
+  if (!version) return { level: "warn", name: "OpenCode", detail: `could not read a version from "${output.trim()}"` }
+  return compareVersions(version, parseVersion(minimum)!) < 0
+    ? { level: "fail", name: "OpenCode", detail: `${version.join(".")} is older than ${minimum}, which BRIR needs -- upgrade OpenCode` }
+    : { level: "ok", name: "OpenCode", detail: version.join(".") }
+}
+
+/**
+ * Whether the orchestrator may start the implementer with the Task tool:
+ * the `task` tool must not be disabled, and the last `permission.task` rule
+ * matching the implementer's name decides.
+ */
+function checkTaskPermission(target: string): CheckResult {
+  const name = "Task permission"
+  const text = readIfExists(path.join(target, ".opencode", ORCHESTRATOR_FILE))
+  const frontmatter = text === null ? null : splitFrontmatter(text)
+  if (!frontmatter) return { level: "fail", name, detail: `.opencode/${ORCHESTRATOR_FILE} is missing or has no frontmatter` }
+
+  const agent = parseYaml(frontmatter.header)
+  const tools = agent.tools
+  if (typeof tools === "object" && tools.task === "false") {
+    return { level: "fail", name, detail: "the orchestrator's `tools.task` is false -- it cannot dispatch at all" }
+  }
+
+  const permission = typeof agent.permission === "object" ? agent.permission.task : undefined
+  let action: string | undefined
+  if (typeof permission === "string") {
+    action = permission
+  } else if (permission) {
+    for (const [pattern, value] of Object.entries(permission)) {
+      const regex = new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`)
+      if (typeof value === "string" && regex.test(IMPLEMENTER_AGENT)) action = value
+    }
+  }
+
+  if (action === "allow") return { level: "ok", name, detail: `the orchestrator may dispatch ${IMPLEMENTER_AGENT}` }
+  if (action === "ask") {
+    return { level: "warn", name, detail: `every dispatch to ${IMPLEMENTER_AGENT} will ask for permission` }
+  }
+  return {
+    level: "fail",
+    name,
+    detail:
+      `permission.task in .opencode/${ORCHESTRATOR_FILE} does not allow ${IMPLEMENTER_AGENT}` +
+      (action ? ` (${action})` : "") +
+      ` -- add \`${IMPLEMENTER_AGENT}: allow\``,
+  }
+}
+
+/**
+ * Import the installed plugin and start it the way OpenCode would, with a
+ * client whose calls do nothing. This catches a missing dependency and an
+ * invalid .opencode/brir.json. Startup writes the plugin's state and prunes
+ * old runs, so it runs against a scratch copy of .opencode rather than the
+ * project.
+ */
+async function checkPluginLoads(target: string): Promise<CheckResult> {
+  const name = "Plugin"
+  const file = path.join(target, ".opencode", PLUGIN_FILE)
+  if (!fs.existsSync(file)) return { level: "fail", name, detail: `.opencode/${PLUGIN_FILE} is missing` }
+
+  const opencode = path.join(target, ".opencode")
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "brir-doctor-"))
+  // Not thenable, or awaiting it would never settle
+  const noop: unknown = new Proxy(async () => ({}), { get: (_, key) => (key === "then" ? undefined : noop) })
+  const input = { client: noop, project: {}, directory: scratch, worktree: scratch, $: noop } as PluginInput
+  // Messages name the scratch copy; point them back at the project
+  const message = (err: unknown) => errorMessage(err).split(scratch).join(target)
+  try {
+    fs.cpSync(opencode, path.join(scratch, ".opencode"), {
+      recursive: true,
+      filter: (src) => !SCRATCH_SKIPPED.includes(path.relative(opencode, src)),
+    })
+    // Imported from the project, so its dependencies resolve there
+    const module: Record<string, unknown> = await import(pathToFileURL(file).href)
+    const plugins = Object.values(module).filter((value): value is Plugin => typeof value === "function")
+    if (plugins.length === 0) return { level: "fail", name, detail: "the plugin file exports no plugin" }
+    let tools = 0
+    for (const plugin of plugins) {
+      const hooks = await plugin(input)
+      tools += Object.keys(hooks?.tool ?? {}).length
+    }
+    return { level: "ok", name, detail: `loaded, ${tools} tool(s)` }
+  } catch (err) {
+    const missing = /Cannot find (package|module) ['"]?@opencode-ai\/plugin/.test(message(err))
+    return {
+      level: "fail",
+      name,
+      detail: missing
+        ? `${PLUGIN_PACKAGE} is not installed -- start OpenCode once (it installs .opencode dependencies) or run \`bun install\` in .opencode`
+        : `failed to load: ${message(err)}`,
+    }
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true })
+  }
+}
+
+async function doctor(target: string): Promise<void> {
+  const results = [
+    checkFiles(target),
+    checkDependency(target),
+    checkOpencodeVersion(),
+    checkTaskPermission(target),
+    await checkPluginLoads(target),
+  ]
+  const width = Math.max(...results.map((r) => r.name.length))
+  for (const r of results) {
+    console.log(`${r.level.toUpperCase().padEnd(4)}  ${r.name.padEnd(width)}  ${r.detail}`)
+  }
+  const failed = results.filter((r) => r.level === "fail").length
+  console.log(failed > 0 ? `\n${failed} check(s) failed.` : "\nBRIR is ready.")
+  // The loaded plugin may hold timers or handles open
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+async function main(argv: string[]): Promise<void> {
+  const flags = argv.filter((a) => a.startsWith("-"))
+  const [command, dir, ...extra] = argv.filter((a) => !a.startsWith("-"))
+  if (!command || flags.includes("--help") || flags.includes("-h")) {
+    console.log(USAGE)
+    return
+  }
+  const known = command === "update" ? ["--dry-run"] : []
+  const unknown = flags.filter((f) => !known.includes(f))
+  if (unknown.length > 0 || extra.length > 0) fail(`unexpected argument(s): ${[...unknown, ...extra].join(" ")}\n\n${USAGE}`)
+
+  const target = path.resolve(dir ?? ".")
+  if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) fail(`${target} is not a directory`)
+
+  switch (command) {
+    case "init":
+      return init(target)
+    case "update":
+      return update(target, flags.includes("--dry-run"))
+    case "doctor":
+      return doctor(target)
+    default:
+      fail(`unknown command '${command}'\n\n${USAGE}`)
+  }
+}
+
+await main(process.argv.slice(2))